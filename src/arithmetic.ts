@@ -0,0 +1,571 @@
+/**
+ * @file src/arithmetic.ts
+ * @description The operation logic behind `calculate`, `batch_calculate` and
+ * `advanced_calculate`, implemented once for every precision mode:
+ * - `float`: native IEEE-754 doubles (fast, but `0.1 + 0.2 = 0.30000000000000004`)
+ * - `decimal`: arbitrary-precision decimals with a configurable number of significant digits
+ * - `bigint`: exact integers of unlimited size (e.g. `factorial(200)`)
+ *
+ * WHY: Keeping the arithmetic out of the tool handlers means every tool shares the same
+ * semantics and error messages, and the handlers stay focused on session state.
+ *
+ * Operands are passed as exact decimal strings rather than numbers, so large integers and
+ * decimal literals reach the exact modes without first being rounded to a double.
+ *
+ * Key Error Handling Ideas:
+ * - Every invalid input throws an `ArithmeticError` (`InvalidParams`) whose `reason` is a
+ *   short, client-friendly sentence that batch tools can report per item.
+ */
+
+import { Decimal } from 'decimal.js';
+import { ArithmeticError } from './types.js';
+import { formatNumber, formatList } from './locale.js';
+import { formatMatrix } from './matrix.js';
+import type { Locale } from './locale.js';
+import type {
+  Calculation,
+  CalculateArgs,
+  AdvancedCalculateArgs,
+  PrecisionSettings,
+  PrecisionMode,
+  ComplexNumber,
+  EquationSolution,
+} from './types.js';
+
+/** The four operations of `calculate` and `batch_calculate`. */
+export type BasicOperation = CalculateArgs['op'];
+
+/** The scientific operations of `advanced_calculate`. */
+export type AdvancedOperation = AdvancedCalculateArgs['operation'];
+
+/**
+ * The outcome of an operation.
+ * `value` is the nearest double, or `null` when the exact result is outside the double range.
+ * `exact` is the full-precision string form; it is only set for the `decimal` and `bigint` modes.
+ */
+export interface ArithmeticOutcome {
+  value: number | null;
+  exact?: string;
+}
+
+/**
+ * Upper bound for factorial and integer power inputs in the exact modes.
+ * WHY: Exact results grow without limit, so an unbounded input would let a single request
+ * monopolize the CPU. 10,000! already has more than 35,000 digits.
+ */
+const MAX_EXACT_MAGNITUDE = 10000;
+
+/**
+ * Upper bound for the number of digits of exact integers, both operands and results.
+ * WHY: Bounding the inputs alone is not enough, because results can be fed back in (`ans`):
+ * squaring a number again and again doubles its length every time. The limit leaves room
+ * for `factorial(10000)` (35,660 digits).
+ */
+const MAX_EXACT_DIGITS = 50000;
+
+// =================================================================
+// PUBLIC API
+// =================================================================
+
+/**
+ * Performs one of the basic arithmetic operations.
+ * @param op The operation to perform.
+ * @param a The first operand as an exact decimal string.
+ * @param b The second operand as an exact decimal string.
+ * @param precision The precision mode and, for `decimal`, the number of significant digits.
+ * @throws {ArithmeticError} On division by zero, non-integer operands in `bigint` mode,
+ * an inexact `bigint` division, or a `float` result that overflows.
+ */
+export function calculateBasic(
+  op: BasicOperation,
+  a: string,
+  b: string,
+  precision: PrecisionSettings,
+): ArithmeticOutcome {
+  switch (precision.mode) {
+    case 'float':
+      return basicFloat(op, Number(a), Number(b));
+    case 'decimal': {
+      const D = decimalContext(precision.digits);
+      return basicDecimal(op, new D(a), new D(b));
+    }
+    case 'bigint':
+      return basicBigInt(op, toBigInt(a), toBigInt(b));
+  }
+}
+
+/**
+ * Performs one of the scientific operations of `advanced_calculate`.
+ * @param operation The operation to perform.
+ * @param value The main input as an exact decimal string (the exponent for `power`).
+ * @param base The base for `power` and `log`, as an exact decimal string.
+ * @param precision The precision mode and, for `decimal`, the number of significant digits.
+ * @throws {ArithmeticError} For invalid mathematical inputs, operations that have no exact
+ * integer result in `bigint` mode, or a `float` result that overflows.
+ */
+export function calculateAdvanced(
+  operation: AdvancedOperation,
+  value: string,
+  base: string | undefined,
+  precision: PrecisionSettings,
+): ArithmeticOutcome {
+  switch (precision.mode) {
+    case 'float':
+      return advancedFloat(operation, Number(value), base !== undefined ? Number(base) : undefined);
+    case 'decimal':
+      return withinDecimalLimits(() => advancedDecimal(operation, value, base, precision.digits));
+    case 'bigint':
+      return advancedBigInt(operation, value, base);
+  }
+}
+
+/**
+ * Converts a number to the exact decimal string used as operand input.
+ * JavaScript's shortest round-trip representation means `0.1` becomes `"0.1"`, not the
+ * binary approximation, which is exactly what a user typing `0.1` meant.
+ */
+export function toExactString(value: number): string {
+  return String(value);
+}
+
+/**
+ * Builds the exact-precision fields of a calculation record.
+ * Float calculations omit them entirely, which keeps their records unchanged.
+ */
+export function exactFields(
+  precision: PrecisionSettings,
+  exactInputs: string[],
+  exactResult: string | undefined,
+): Pick<Calculation, 'exactInputs' | 'exactResult' | 'precision' | 'digits'> {
+  if (exactResult === undefined || !isExactMode(precision.mode)) {
+    return {};
+  }
+  return {
+    exactInputs,
+    exactResult,
+    precision: precision.mode,
+    ...(precision.mode === 'decimal' ? { digits: precision.digits } : {}),
+  };
+}
+
+/**
+ * Describes a precision setting for display, e.g. `decimal, 20 digits`.
+ */
+export function describePrecision({ mode, digits }: PrecisionSettings): string {
+  return mode === 'decimal' ? `${mode}, ${digits} digits` : mode;
+}
+
+/**
+ * Renders the result of a recorded calculation, preferring equation solutions, matrix/vector
+ * or exact forms when present.
+ * @param locale Formats the result for display in a locale; without one it is rendered
+ * locale-neutral, as in exports.
+ */
+export function formatResult(calculation: Calculation, locale?: Locale): string {
+  if (calculation.solution) {
+    return formatSolution(calculation.solution, locale);
+  }
+  if (calculation.structuredResult) {
+    return locale
+      ? formatMatrix(calculation.structuredResult, locale)
+      : JSON.stringify(calculation.structuredResult);
+  }
+  const result = calculation.exactResult ?? String(calculation.result);
+  return locale ? formatNumber(result, locale) : result;
+}
+
+/**
+ * Renders a complex number as `1 + 2i`, or just `1` when it is real.
+ * @param locale Formats the parts for display in a locale; without one they are rendered
+ * locale-neutral.
+ */
+export function formatComplex({ real, imaginary }: ComplexNumber, locale?: Locale): string {
+  const format = (value: number): string => (locale ? formatNumber(value, locale) : String(value));
+  if (imaginary === 0) {
+    return format(real);
+  }
+  const sign = imaginary < 0 ? '-' : '+';
+  return `${format(real)} ${sign} ${format(Math.abs(imaginary))}i`;
+}
+
+/**
+ * Renders the solutions of an equation, e.g. `2, 3` or `no solution`.
+ * @param locale Formats the roots for display in a locale; without one they are rendered
+ * locale-neutral.
+ */
+export function formatSolution(solution: EquationSolution, locale?: Locale): string {
+  switch (solution.status) {
+    case 'no_solution':
+      return 'no solution';
+    case 'infinite_solutions':
+      return 'every value is a solution';
+    case 'solved': {
+      const roots = solution.roots.map((root) => formatComplex(root, locale));
+      return locale ? formatList(roots, locale) : roots.join(', ');
+    }
+  }
+}
+
+/**
+ * Renders the inputs of a calculation for history listings, including structured
+ * (matrix and vector) inputs.
+ * @param locale Formats the inputs for display in a locale; without one they are rendered
+ * locale-neutral, as in exports.
+ */
+export function formatInputs(calculation: Calculation, locale?: Locale): string {
+  if (locale) {
+    return formatList(
+      calculation.structuredInputs
+        ? calculation.structuredInputs.map((input) => formatMatrix(input, locale))
+        : calculation.inputs.map((input) => formatNumber(input, locale)),
+      locale,
+    );
+  }
+  return calculation.structuredInputs
+    ? calculation.structuredInputs.map((input) => JSON.stringify(input)).join(', ')
+    : calculation.inputs.join(', ');
+}
+
+/**
+ * Whether a precision mode produces exact string results.
+ */
+export function isExactMode(mode: PrecisionMode): boolean {
+  return mode !== 'float';
+}
+
+// =================================================================
+// FLOAT MODE
+// =================================================================
+
+function basicFloat(op: BasicOperation, a: number, b: number): ArithmeticOutcome {
+  switch (op) {
+    case 'add':
+      return finiteFloat(a + b);
+    case 'subtract':
+      return finiteFloat(a - b);
+    case 'multiply':
+      return finiteFloat(a * b);
+    case 'divide':
+      // CAVEAT: Letting this proceed would produce `Infinity`, which clients rarely
+      // expect. Failing fast with a protocol-compliant error is safer.
+      if (b === 0) {
+        throw new ArithmeticError('Division by zero is not allowed');
+      }
+      return finiteFloat(a / b);
+  }
+}
+
+function advancedFloat(
+  operation: AdvancedOperation,
+  value: number,
+  base: number | undefined,
+): ArithmeticOutcome {
+  switch (operation) {
+    case 'factorial': {
+      requireFactorialInput(value);
+      let result = 1;
+      for (let i = 2; i <= value && Number.isFinite(result); i++) {
+        result *= i;
+      }
+      return finiteFloat(result);
+    }
+    case 'power':
+      return finiteFloat(Math.pow(requireBase(base), value));
+    case 'sqrt':
+      if (value < 0) {
+        throw new ArithmeticError('Square root of negative number');
+      }
+      return finiteFloat(Math.sqrt(value));
+    case 'log':
+      if (value <= 0) {
+        throw new ArithmeticError('Logarithm requires positive number');
+      }
+      return finiteFloat(base ? Math.log(value) / Math.log(base) : Math.log(value));
+    case 'sin':
+      return finiteFloat(Math.sin(value));
+    case 'cos':
+      return finiteFloat(Math.cos(value));
+    case 'tan':
+      return finiteFloat(Math.tan(value));
+  }
+}
+
+/**
+ * @throws {ArithmeticError} If the float result overflowed or is otherwise not finite.
+ */
+function finiteFloat(value: number): ArithmeticOutcome {
+  if (!Number.isFinite(value)) {
+    throw new ArithmeticError(
+      'Result is too large for floating point; use decimal or bigint precision',
+    );
+  }
+  return { value };
+}
+
+// =================================================================
+// DECIMAL MODE
+// =================================================================
+
+function basicDecimal(op: BasicOperation, a: Decimal, b: Decimal): ArithmeticOutcome {
+  switch (op) {
+    case 'add':
+      return fromDecimal(a.plus(b));
+    case 'subtract':
+      return fromDecimal(a.minus(b));
+    case 'multiply':
+      return fromDecimal(a.times(b));
+    case 'divide':
+      if (b.isZero()) {
+        throw new ArithmeticError('Division by zero is not allowed');
+      }
+      return fromDecimal(a.dividedBy(b));
+  }
+}
+
+function advancedDecimal(
+  operation: AdvancedOperation,
+  value: string,
+  base: string | undefined,
+  digits: number,
+): ArithmeticOutcome {
+  const D = decimalContext(digits);
+  const x = new D(value);
+
+  switch (operation) {
+    case 'factorial': {
+      requireFactorialInput(x.toNumber());
+      requireExactMagnitude(x.toNumber(), 'Factorial input');
+      let result = new D(1);
+      for (let i = 2; i <= x.toNumber(); i++) {
+        result = result.times(i);
+      }
+      return fromDecimal(result);
+    }
+    case 'power':
+      return fromDecimal(D.pow(new D(requireBase(base)), x));
+    case 'sqrt':
+      if (x.isNegative()) {
+        throw new ArithmeticError('Square root of negative number');
+      }
+      return fromDecimal(x.sqrt());
+    case 'log':
+      if (x.lte(0)) {
+        throw new ArithmeticError('Logarithm requires positive number');
+      }
+      // Mirrors the float semantics: a missing (or zero) base means the natural logarithm
+      return fromDecimal(base !== undefined && !new D(base).isZero() ? x.log(new D(base)) : x.ln());
+    case 'sin':
+      return fromDecimal(x.sin());
+    case 'cos':
+      return fromDecimal(x.cos());
+    case 'tan':
+      return fromDecimal(x.tan());
+  }
+}
+
+/**
+ * Runs a decimal.js calculation, reporting its internal limits as an `ArithmeticError`.
+ * WHY: decimal.js knows π and ln(10) to 1025 digits and throws a plain `Error` when a function
+ * needs more. Reducing the argument of `sin`, `cos` and `tan` takes an extra digit for every
+ * digit before its decimal point, so `sin` of `1e100` at 1000 digits is already too much.
+ * @throws {ArithmeticError} If decimal.js runs out of precision.
+ */
+function withinDecimalLimits(calculate: () => ArithmeticOutcome): ArithmeticOutcome {
+  try {
+    return calculate();
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('[DecimalError] Precision limit')) {
+      throw new ArithmeticError(
+        'The argument is too extreme for decimal precision at this many digits; use fewer digits or float precision',
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Creates an isolated Decimal constructor with the requested number of significant digits.
+ * WHY: `Decimal.set` mutates global configuration, which would leak between concurrent
+ * requests from different sessions. A clone keeps each calculation self-contained.
+ */
+function decimalContext(digits: number): Decimal.Constructor {
+  return Decimal.clone({ precision: digits, rounding: Decimal.ROUND_HALF_EVEN });
+}
+
+/**
+ * @throws {ArithmeticError} If the result is not a finite number (e.g. `tan` of a pole).
+ */
+function fromDecimal(result: Decimal): ArithmeticOutcome {
+  if (!result.isFinite()) {
+    throw new ArithmeticError('Result is not a finite number');
+  }
+  return { value: nearestDouble(result.toNumber()), exact: result.toString() };
+}
+
+// =================================================================
+// BIGINT MODE
+// =================================================================
+
+function basicBigInt(op: BasicOperation, a: bigint, b: bigint): ArithmeticOutcome {
+  switch (op) {
+    case 'add':
+      return fromBigInt(a + b);
+    case 'subtract':
+      return fromBigInt(a - b);
+    case 'multiply':
+      return fromBigInt(a * b);
+    case 'divide':
+      if (b === 0n) {
+        throw new ArithmeticError('Division by zero is not allowed');
+      }
+      if (a % b !== 0n) {
+        throw new ArithmeticError(
+          'Big integer division is not exact; use decimal precision for fractional results',
+        );
+      }
+      return fromBigInt(a / b);
+  }
+}
+
+function advancedBigInt(
+  operation: AdvancedOperation,
+  value: string,
+  base: string | undefined,
+): ArithmeticOutcome {
+  const x = toBigInt(value);
+
+  switch (operation) {
+    case 'factorial': {
+      requireFactorialInput(Number(x));
+      requireExactMagnitude(Number(x), 'Factorial input');
+      let result = 1n;
+      for (let i = 2n; i <= x; i++) {
+        result *= i;
+      }
+      return fromBigInt(result);
+    }
+    case 'power': {
+      if (x < 0n) {
+        throw new ArithmeticError('Big integer power requires a non-negative integer exponent');
+      }
+      requireExactMagnitude(Number(x), 'Exponent');
+      const b = toBigInt(requireBase(base));
+      // Reject results that are too long before computing them; fromBigInt catches the rest
+      const baseDigits = (b < 0n ? -b : b).toString().length;
+      if ((baseDigits - 1) * Number(x) > MAX_EXACT_DIGITS) {
+        throw exactSizeError();
+      }
+      return fromBigInt(b ** x);
+    }
+    case 'sqrt': {
+      if (x < 0n) {
+        throw new ArithmeticError('Square root of negative number');
+      }
+      const root = integerSqrt(x);
+      if (root * root !== x) {
+        throw new ArithmeticError(
+          'Square root is not an integer; use decimal precision for irrational results',
+        );
+      }
+      return fromBigInt(root);
+    }
+    case 'log':
+    case 'sin':
+    case 'cos':
+    case 'tan':
+      throw new ArithmeticError(
+        `${operation} has no exact integer result; use decimal or float precision`,
+      );
+  }
+}
+
+/**
+ * Parses an exact decimal string as a BigInt.
+ * @throws {ArithmeticError} If the value is not an integer or has more than
+ * `MAX_EXACT_DIGITS` digits.
+ */
+function toBigInt(value: string): bigint {
+  if (/^-?\d+$/.test(value)) {
+    if (value.replace('-', '').length > MAX_EXACT_DIGITS) {
+      throw exactSizeError();
+    }
+    return BigInt(value);
+  }
+  // Accept integral values written in other notations, such as "1e+21"
+  const parsed = new Decimal(value);
+  if (!parsed.isInteger()) {
+    throw new ArithmeticError(`Big integer precision requires integer operands, got ${value}`);
+  }
+  // Checked before expanding, as "1e8000000" would expand to eight million digits
+  if (parsed.e >= MAX_EXACT_DIGITS) {
+    throw exactSizeError();
+  }
+  return BigInt(parsed.toFixed());
+}
+
+/**
+ * @throws {ArithmeticError} If the result has more than `MAX_EXACT_DIGITS` digits.
+ */
+function fromBigInt(result: bigint): ArithmeticOutcome {
+  // Converting to decimal takes quadratic time, so the length is estimated from the
+  // hexadecimal form (linear) first
+  const bits = (result < 0n ? -result : result).toString(16).length * 4;
+  if (bits * Math.log10(2) > MAX_EXACT_DIGITS + 1) {
+    throw exactSizeError();
+  }
+  const exact = result.toString();
+  if (exact.replace('-', '').length > MAX_EXACT_DIGITS) {
+    throw exactSizeError();
+  }
+  return { value: nearestDouble(Number(result)), exact };
+}
+
+/** Newton's method integer square root: the largest r with r * r <= n. */
+function integerSqrt(n: bigint): bigint {
+  if (n < 2n) {
+    return n;
+  }
+  let x = n;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + n / x) / 2n;
+  }
+  return x;
+}
+
+// =================================================================
+// SHARED VALIDATION
+// =================================================================
+
+/**
+ * Exact results may exceed the double range; in that case only the exact string is usable.
+ */
+function nearestDouble(value: number): number | null {
+  return Number.isFinite(value) ? value : null;
+}
+
+function requireFactorialInput(value: number): void {
+  if (value < 0 || !Number.isInteger(value)) {
+    throw new ArithmeticError('Factorial requires non-negative integer');
+  }
+}
+
+function requireExactMagnitude(value: number, label: string): void {
+  if (value > MAX_EXACT_MAGNITUDE) {
+    throw new ArithmeticError(`${label} must not exceed ${MAX_EXACT_MAGNITUDE} in exact precision`);
+  }
+}
+
+function exactSizeError(): ArithmeticError {
+  return new ArithmeticError(
+    `Exact integers are limited to ${MAX_EXACT_DIGITS} digits; use decimal or float precision`,
+  );
+}
+
+function requireBase<T>(base: T | undefined): T {
+  if (base === undefined) {
+    throw new ArithmeticError('Power operation requires base parameter');
+  }
+  return base;
+}
@@ -0,0 +1,96 @@
+/**
+ * @file src/batch.ts
+ * @description Dependency planning for `batch_calculate`, whose items may use the result of
+ * another item through a `$N` reference (the zero-based index of that item).
+ *
+ * WHY: References turn a batch into a small pipeline (`$0` feeds `$1`, ...). Working out the
+ * evaluation order up front, separately from the arithmetic, keeps the tool handler a simple
+ * loop and lets every broken reference be reported against the item that contains it.
+ *
+ * Key Error Handling Ideas:
+ * - Nothing here throws. References to items that don't exist and reference cycles are
+ *   returned as structured per-item errors, so the rest of the batch still runs.
+ * - Items that depend on a failed item are reported by the tool handler as
+ *   `dependency_failed`, because only it knows which items fail at runtime.
+ */
+
+import type { BatchItemError, BatchOperand } from './types.js';
+
+/** Matches a reference to another batch item, capturing its index. */
+const REFERENCE_PATTERN = /^\$(\d+)$/;
+
+/**
+ * Returns the item index a `$N` operand refers to, or `undefined` for any other operand.
+ */
+export function parseReference(operand: BatchOperand): number | undefined {
+  if (typeof operand !== 'string') {
+    return undefined;
+  }
+  const match = REFERENCE_PATTERN.exec(operand);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * The order in which to evaluate a batch, and the items that can't be evaluated at all.
+ */
+export interface BatchPlan {
+  /** Every item index, each placed after the items it references. */
+  order: number[];
+  /** Items with a reference to a missing item, or that are part of a reference cycle. */
+  problems: Map<number, BatchItemError>;
+}
+
+/**
+ * Orders the items of a batch so that every item comes after the items it references.
+ * Items without references keep their input order, so a batch without references (or with
+ * backward references only) is evaluated exactly as given.
+ * @param items The operands of each item, in input order.
+ */
+export function planBatch(items: Array<{ a: BatchOperand; b: BatchOperand }>): BatchPlan {
+  const order: number[] = [];
+  const problems = new Map<number, BatchItemError>();
+  const state = new Array<'visiting' | 'done' | undefined>(items.length);
+  const path: number[] = [];
+
+  const visit = (index: number): void => {
+    state[index] = 'visiting';
+    path.push(index);
+
+    for (const operand of [items[index]?.a, items[index]?.b]) {
+      const target = operand === undefined ? undefined : parseReference(operand);
+      if (target === undefined) {
+        continue;
+      }
+      if (target >= items.length) {
+        problems.set(index, {
+          code: 'invalid_reference',
+          message: `Item ${index} references $${target}, but the batch only has ${items.length} item(s)`,
+          dependsOn: target,
+        });
+      } else if (state[target] === 'visiting') {
+        // Every item on the path from the target back to here is part of the cycle
+        const cycle = path.slice(path.indexOf(target));
+        const description = [...cycle, target].map((i) => `$${i}`).join(' → ');
+        for (const member of cycle) {
+          problems.set(member, {
+            code: 'cycle',
+            message: `Item ${member} is part of a reference cycle (${description})`,
+          });
+        }
+      } else if (state[target] === undefined) {
+        visit(target);
+      }
+    }
+
+    path.pop();
+    state[index] = 'done';
+    order.push(index);
+  };
+
+  for (let index = 0; index < items.length; index++) {
+    if (state[index] === undefined) {
+      visit(index);
+    }
+  }
+  return { order, problems };
+}
@@ -0,0 +1,518 @@
+/**
+ * @file src/expression.ts
+ * @description A small, safe infix expression engine used by the `evaluate_expression` tool.
+ * Expressions are tokenized, parsed into an abstract syntax tree (AST) by a recursive-descent
+ * parser, and evaluated by walking that tree.
+ *
+ * WHY: Agents frequently need to compute whole formulas like `(3 + 4) * sqrt(2) / x`. Breaking
+ * such a formula into a chain of `calculate` calls multiplies the round-trips over the
+ * Streamable HTTP transport. Evaluating the formula server-side in one call fixes that.
+ *
+ * SECURITY: The engine never uses `eval` or `Function`. Only the grammar below is accepted,
+ * and only the whitelisted functions in `FUNCTIONS` can be called.
+ *
+ * Grammar (lowest to highest precedence):
+ *   expression := term (('+' | '-') term)*
+ *   term       := unary (('*' | '/') unary)*
+ *   unary      := ('+' | '-') unary | power
+ *   power      := primary ('^' unary)?          (right-associative)
+ *   primary    := number | identifier | identifier '(' arguments ')' | '(' expression ')'
+ *
+ * Key Error Handling Ideas:
+ * - Every syntax or domain failure throws an `ExpressionError`, which maps to the
+ *   protocol's `InvalidParams` code so clients can tell bad input from server faults.
+ */
+
+import { ExpressionError } from './types.js';
+
+// =================================================================
+// AST DEFINITIONS
+// =================================================================
+
+/**
+ * A node of the parsed expression tree.
+ * The tree is plain data, so it can be formatted, inspected or re-evaluated at will.
+ */
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'unary'; operator: '+' | '-'; operand: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '^';
+
+/** Named values available to an expression during evaluation. */
+export type ExpressionScope = Readonly<Record<string, number>>;
+
+// =================================================================
+// BUILT-IN FUNCTIONS AND CONSTANTS
+// =================================================================
+
+/**
+ * Whitelisted functions. This mirrors the operations of `advancedCalculateArgsSchema`,
+ * including its argument order for `log(value, base)`, so both tools agree on semantics.
+ */
+const FUNCTIONS: Record<string, { arity: [number, number]; apply: (args: number[]) => number }> = {
+  factorial: {
+    arity: [1, 1],
+    apply: ([value = 0]) => {
+      if (value < 0 || !Number.isInteger(value)) {
+        throw new ExpressionError('Factorial requires non-negative integer');
+      }
+      let result = 1;
+      // Stop once the result overflows, or huge inputs would block the server
+      for (let i = 2; i <= value && Number.isFinite(result); i++) {
+        result *= i;
+      }
+      return result;
+    },
+  },
+  power: {
+    arity: [2, 2],
+    apply: ([base = 0, exponent = 0]) => Math.pow(base, exponent),
+  },
+  sqrt: {
+    arity: [1, 1],
+    apply: ([value = 0]) => {
+      if (value < 0) {
+        throw new ExpressionError('Square root of negative number');
+      }
+      return Math.sqrt(value);
+    },
+  },
+  log: {
+    arity: [1, 2],
+    apply: ([value = 0, base]) => {
+      if (value <= 0) {
+        throw new ExpressionError('Logarithm requires positive number');
+      }
+      return base ? Math.log(value) / Math.log(base) : Math.log(value);
+    },
+  },
+  sin: { arity: [1, 1], apply: ([value = 0]) => Math.sin(value) },
+  cos: { arity: [1, 1], apply: ([value = 0]) => Math.cos(value) },
+  tan: { arity: [1, 1], apply: ([value = 0]) => Math.tan(value) },
+};
+
+/**
+ * Constants available to every expression. They match the `calculator://constants` resource.
+ * Caller-supplied variables take precedence, so a session may still define its own `e`.
+ */
+const CONSTANTS: ExpressionScope = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+/** Names of all functions an expression may call. */
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+/** Names of the built-in constants. */
+export const EXPRESSION_CONSTANTS = Object.keys(CONSTANTS);
+
+// =================================================================
+// TOKENIZER
+// =================================================================
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'symbol'; value: string; position: number }
+  | { kind: 'end'; position: number };
+
+const NUMBER_PATTERN = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+const SYMBOLS = new Set(['+', '-', '*', '/', '^', '(', ')', ',']);
+
+/**
+ * Splits the source text into tokens.
+ * @throws {ExpressionError} If an unexpected character is encountered.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const char = rest[0] as string;
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    const numberMatch = NUMBER_PATTERN.exec(rest);
+    if (numberMatch) {
+      tokens.push({ kind: 'number', value: Number(numberMatch[0]), position });
+      position += numberMatch[0].length;
+      continue;
+    }
+
+    const identifierMatch = IDENTIFIER_PATTERN.exec(rest);
+    if (identifierMatch) {
+      tokens.push({ kind: 'identifier', value: identifierMatch[0], position });
+      position += identifierMatch[0].length;
+      continue;
+    }
+
+    if (SYMBOLS.has(char)) {
+      tokens.push({ kind: 'symbol', value: char, position });
+      position++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}' at position ${position}`, {
+      position,
+    });
+  }
+
+  tokens.push({ kind: 'end', position });
+  return tokens;
+}
+
+// =================================================================
+// PARSER
+// =================================================================
+
+/**
+ * Recursive-descent parser over the token list. One method per grammar rule.
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseExpression();
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      throw this.unexpected(token);
+    }
+    return node;
+  }
+
+  private parseExpression(): ExpressionNode {
+    let node = this.parseTerm();
+    while (this.isSymbol('+') || this.isSymbol('-')) {
+      const operator = this.takeSymbol() as '+' | '-';
+      node = { type: 'binary', operator, left: node, right: this.parseTerm() };
+    }
+    return node;
+  }
+
+  private parseTerm(): ExpressionNode {
+    let node = this.parseUnary();
+    while (this.isSymbol('*') || this.isSymbol('/')) {
+      const operator = this.takeSymbol() as '*' | '/';
+      node = { type: 'binary', operator, left: node, right: this.parseUnary() };
+    }
+    return node;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isSymbol('+') || this.isSymbol('-')) {
+      const operator = this.takeSymbol() as '+' | '-';
+      return { type: 'unary', operator, operand: this.parseUnary() };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ExpressionNode {
+    const base = this.parsePrimary();
+    if (this.isSymbol('^')) {
+      this.takeSymbol();
+      // Right-associative, and the exponent may carry its own sign: 2^-1, 2^3^2 = 2^(3^2)
+      return { type: 'binary', operator: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    if (token.kind === 'number') {
+      this.index++;
+      return { type: 'number', value: token.value };
+    }
+
+    if (token.kind === 'identifier') {
+      this.index++;
+      if (!this.isSymbol('(')) {
+        return { type: 'variable', name: token.value };
+      }
+
+      this.takeSymbol();
+      const args: ExpressionNode[] = [];
+      if (!this.isSymbol(')')) {
+        args.push(this.parseExpression());
+        while (this.isSymbol(',')) {
+          this.takeSymbol();
+          args.push(this.parseExpression());
+        }
+      }
+      this.expectSymbol(')');
+      return { type: 'call', name: token.value, args };
+    }
+
+    if (this.isSymbol('(')) {
+      this.takeSymbol();
+      const node = this.parseExpression();
+      this.expectSymbol(')');
+      return node;
+    }
+
+    throw this.unexpected(token);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index] as Token;
+  }
+
+  private isSymbol(value: string): boolean {
+    const token = this.peek();
+    return token.kind === 'symbol' && token.value === value;
+  }
+
+  private takeSymbol(): string {
+    const token = this.peek() as Extract<Token, { kind: 'symbol' }>;
+    this.index++;
+    return token.value;
+  }
+
+  private expectSymbol(value: string): void {
+    if (!this.isSymbol(value)) {
+      throw this.unexpected(this.peek(), `'${value}'`);
+    }
+    this.takeSymbol();
+  }
+
+  private unexpected(token: Token, expected?: string): ExpressionError {
+    const found = token.kind === 'end' ? 'end of expression' : `'${token.value}'`;
+    const suffix = expected ? `, expected ${expected}` : '';
+    return new ExpressionError(`Unexpected ${found} at position ${token.position}${suffix}`, {
+      position: token.position,
+    });
+  }
+}
+
+// =================================================================
+// PUBLIC API
+// =================================================================
+
+/**
+ * Parses an infix expression into an AST.
+ * @param source The expression text, e.g. `(3 + 4) * sqrt(2) / x`.
+ * @returns The root node of the parsed expression tree.
+ * @throws {ExpressionError} If the expression is syntactically invalid.
+ */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Evaluates a parsed expression.
+ * @param node The root of the expression tree.
+ * @param scope Variables visible to the expression. These shadow the built-in constants.
+ * @returns The numeric result.
+ * @throws {ExpressionError} On unknown variables/functions, wrong arity, division by zero,
+ * domain errors (e.g. `sqrt(-1)`), or a non-finite result.
+ */
+export function evaluateExpression(node: ExpressionNode, scope: ExpressionScope = {}): number {
+  const result = evaluateNode(node, scope);
+  if (!Number.isFinite(result)) {
+    throw new ExpressionError('Expression result is not a finite number');
+  }
+  return result;
+}
+
+/**
+ * Renders an AST back to canonical infix text, inserting only the parentheses required
+ * by precedence. This normalized form is what gets stored in the calculation history.
+ */
+export function formatExpression(node: ExpressionNode): string {
+  switch (node.type) {
+    case 'number':
+      return String(node.value);
+    case 'variable':
+      return node.name;
+    case 'unary': {
+      const operand = formatExpression(node.operand);
+      return `${node.operator}${needsParentheses(node.operand, PRECEDENCE.unary) ? `(${operand})` : operand}`;
+    }
+    case 'binary': {
+      const precedence = PRECEDENCE[node.operator];
+      // '^' is right-associative; the other operators are left-associative.
+      const rightAssociative = node.operator === '^';
+      const left = formatExpression(node.left);
+      const right = formatExpression(node.right);
+      const wrapLeft =
+        needsParentheses(node.left, precedence) ||
+        (rightAssociative && precedenceOf(node.left) === precedence);
+      const wrapRight =
+        needsParentheses(node.right, precedence) ||
+        (!rightAssociative && precedenceOf(node.right) === precedence);
+      return `${wrapLeft ? `(${left})` : left} ${node.operator} ${wrapRight ? `(${right})` : right}`;
+    }
+    case 'call':
+      return `${node.name}(${node.args.map(formatExpression).join(', ')})`;
+  }
+}
+
+/**
+ * Lists the distinct variable names referenced by an expression, in order of first use.
+ * Built-in constants are included only when they are referenced.
+ */
+export function collectVariables(node: ExpressionNode): string[] {
+  const names: string[] = [];
+  const visit = (current: ExpressionNode): void => {
+    switch (current.type) {
+      case 'variable':
+        if (!names.includes(current.name)) {
+          names.push(current.name);
+        }
+        break;
+      case 'unary':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'call':
+        current.args.forEach(visit);
+        break;
+      case 'number':
+        break;
+    }
+  };
+  visit(node);
+  return names;
+}
+
+/**
+ * Whether an evaluation error is caused by an unknown name (variable or function) or a wrong
+ * number of arguments, rather than by the values involved (e.g. `sqrt(-1)`).
+ * Numeric tools use this to tell a broken expression from a point where it is undefined.
+ */
+export function isNameError(error: ExpressionError): boolean {
+  const context = error.context as { variable?: string; function?: string } | undefined;
+  return context?.variable !== undefined || context?.function !== undefined;
+}
+
+/**
+ * Lists the distinct function names called by an expression, in order of first use.
+ * Unknown names are included, so callers can reject them before evaluating.
+ */
+export function collectFunctions(node: ExpressionNode): string[] {
+  const names: string[] = [];
+  const visit = (current: ExpressionNode): void => {
+    switch (current.type) {
+      case 'call':
+        if (!names.includes(current.name)) {
+          names.push(current.name);
+        }
+        current.args.forEach(visit);
+        break;
+      case 'unary':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'variable':
+      case 'number':
+        break;
+    }
+  };
+  visit(node);
+  return names;
+}
+
+// =================================================================
+// INTERNAL HELPERS
+// =================================================================
+
+const PRECEDENCE = { '+': 1, '-': 1, '*': 2, '/': 2, unary: 3, '^': 4 } as const;
+
+function precedenceOf(node: ExpressionNode): number {
+  if (node.type === 'binary') {
+    return PRECEDENCE[node.operator];
+  }
+  if (node.type === 'unary') {
+    return PRECEDENCE.unary;
+  }
+  return Infinity;
+}
+
+function needsParentheses(node: ExpressionNode, parentPrecedence: number): boolean {
+  return precedenceOf(node) < parentPrecedence;
+}
+
+function evaluateNode(node: ExpressionNode, scope: ExpressionScope): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+
+    case 'variable': {
+      const value = lookupName(node.name, scope);
+      if (value === undefined) {
+        throw new ExpressionError(`Unknown variable '${node.name}'`, { variable: node.name });
+      }
+      return value;
+    }
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope);
+      return node.operator === '-' ? -operand : operand;
+    }
+
+    case 'binary':
+      return applyBinary(
+        node.operator,
+        evaluateNode(node.left, scope),
+        evaluateNode(node.right, scope),
+      );
+
+    case 'call': {
+      const fn = Object.hasOwn(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+      if (!fn) {
+        throw new ExpressionError(`Unknown function '${node.name}'`, { function: node.name });
+      }
+      const [min, max] = fn.arity;
+      if (node.args.length < min || node.args.length > max) {
+        const expected = min === max ? `${min}` : `${min} to ${max}`;
+        throw new ExpressionError(
+          `Function '${node.name}' expects ${expected} argument(s), got ${node.args.length}`,
+          { function: node.name },
+        );
+      }
+      return fn.apply(node.args.map((arg) => evaluateNode(arg, scope)));
+    }
+  }
+}
+
+function lookupName(name: string, scope: ExpressionScope): number | undefined {
+  if (Object.hasOwn(scope, name)) {
+    return scope[name];
+  }
+  return Object.hasOwn(CONSTANTS, name) ? CONSTANTS[name] : undefined;
+}
+
+function applyBinary(operator: BinaryOperator, left: number, right: number): number {
+  switch (operator) {
+    case '+':
+      return left + right;
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      if (right === 0) {
+        throw new ExpressionError('Division by zero is not allowed');
+      }
+      return left / right;
+    case '^':
+      return Math.pow(left, right);
+  }
+}
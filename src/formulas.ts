@@ -0,0 +1,258 @@
+/**
+ * @file src/formulas.ts
+ * @description The executable formula library behind the `formulas://library` resources and
+ * the `evaluate_formula` tool. Every formula carries a human-readable form, one or more
+ * machine-readable result expressions (in `evaluate_expression` syntax) and a schema for
+ * each of its variables.
+ *
+ * WHY: The library used to be a static JSON blob that agents could read but never use.
+ * Describing each formula once, as data, lets the same definition drive documentation,
+ * input validation and evaluation.
+ *
+ * Key Error Handling Ideas:
+ * - Unknown formulas and missing, unexpected or out-of-range variables throw a
+ *   `FormulaError` (`InvalidParams`) naming the formula and variable involved.
+ * - Domain errors while evaluating (e.g. a negative discriminant) surface as the expression
+ *   engine's `ExpressionError`.
+ */
+
+import { z } from 'zod';
+import { FormulaError } from './types.js';
+import { parseExpression, evaluateExpression } from './expression.js';
+
+// =================================================================
+// DEFINITIONS
+// =================================================================
+
+/**
+ * Describes one input variable of a formula. The constraints are checked before evaluation.
+ */
+export interface FormulaVariable {
+  description: string;
+  unit?: string;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  integer?: boolean;
+}
+
+/**
+ * One value computed by a formula, e.g. `A` for compound interest.
+ */
+export interface FormulaResult {
+  name: string;
+  description: string;
+  unit?: string;
+  expression: string;
+}
+
+/**
+ * A formula of the library.
+ */
+export interface FormulaDefinition {
+  name: string;
+  title: string;
+  description: string;
+  /** Human-readable form, e.g. `A = P(1 + r/n)^(nt)` */
+  formula: string;
+  variables: Record<string, FormulaVariable>;
+  results: FormulaResult[];
+}
+
+const FORMULAS: FormulaDefinition[] = [
+  {
+    name: 'quadratic',
+    title: 'Quadratic Formula',
+    description:
+      'Real roots of ax² + bx + c = 0. For complex roots, use the solve_equation tool instead.',
+    formula: 'x = (-b ± √(b²-4ac)) / 2a',
+    variables: {
+      a: { description: 'Coefficient of x² (non-zero)' },
+      b: { description: 'Coefficient of x' },
+      c: { description: 'Constant term' },
+    },
+    results: [
+      {
+        name: 'x1',
+        description: 'Root using +√',
+        expression: '(-b + sqrt(b^2 - 4*a*c)) / (2*a)',
+      },
+      {
+        name: 'x2',
+        description: 'Root using -√',
+        expression: '(-b - sqrt(b^2 - 4*a*c)) / (2*a)',
+      },
+    ],
+  },
+  {
+    name: 'pythagorean',
+    title: 'Pythagorean Theorem',
+    description: 'Hypotenuse of a right triangle from its two legs.',
+    formula: 'a² + b² = c²',
+    variables: {
+      a: { description: 'First leg', minimum: 0 },
+      b: { description: 'Second leg', minimum: 0 },
+    },
+    results: [{ name: 'c', description: 'Hypotenuse', expression: 'sqrt(a^2 + b^2)' }],
+  },
+  {
+    name: 'compound_interest',
+    title: 'Compound Interest',
+    description: 'Final amount of an investment with periodically compounded interest.',
+    formula: 'A = P(1 + r/n)^(nt)',
+    variables: {
+      P: { description: 'Principal', minimum: 0 },
+      r: { description: 'Annual interest rate as a decimal (0.05 for 5%)' },
+      n: { description: 'Compounding periods per year', exclusiveMinimum: 0, integer: true },
+      t: { description: 'Time', unit: 'years', minimum: 0 },
+    },
+    results: [{ name: 'A', description: 'Final amount', expression: 'P * (1 + r/n)^(n*t)' }],
+  },
+  {
+    name: 'simple_interest',
+    title: 'Simple Interest',
+    description: 'Interest earned without compounding.',
+    formula: 'I = Prt',
+    variables: {
+      P: { description: 'Principal', minimum: 0 },
+      r: { description: 'Annual interest rate as a decimal (0.05 for 5%)' },
+      t: { description: 'Time', unit: 'years', minimum: 0 },
+    },
+    results: [{ name: 'I', description: 'Interest earned', expression: 'P * r * t' }],
+  },
+  {
+    name: 'circle_area',
+    title: 'Area of a Circle',
+    description: 'Area enclosed by a circle of the given radius.',
+    formula: 'A = πr²',
+    variables: {
+      r: { description: 'Radius', minimum: 0 },
+    },
+    results: [{ name: 'A', description: 'Area', expression: 'pi * r^2' }],
+  },
+  {
+    name: 'kinetic_energy',
+    title: 'Kinetic Energy',
+    description: 'Kinetic energy of a moving mass.',
+    formula: 'E = ½mv²',
+    variables: {
+      m: { description: 'Mass', unit: 'kg', minimum: 0 },
+      v: { description: 'Velocity', unit: 'm/s' },
+    },
+    results: [{ name: 'E', description: 'Kinetic energy', unit: 'J', expression: '0.5 * m * v^2' }],
+  },
+];
+
+const REGISTRY = new Map(FORMULAS.map((definition) => [definition.name, definition]));
+
+/** Names of all formulas in the library. */
+export const FORMULA_NAMES = FORMULAS.map((definition) => definition.name);
+
+// =================================================================
+// PUBLIC API
+// =================================================================
+
+/**
+ * Looks up a formula by name.
+ * @throws {FormulaError} If there is no formula with that name.
+ */
+export function getFormula(name: string): FormulaDefinition {
+  const definition = REGISTRY.get(name);
+  if (!definition) {
+    throw new FormulaError(
+      `Unknown formula '${name}'. Available formulas: ${FORMULA_NAMES.join(', ')}`,
+      { formula: name },
+    );
+  }
+  return definition;
+}
+
+/**
+ * Describes a formula for the `formulas://library` resources. The variables are given as a
+ * JSON Schema object, so clients can build inputs for `evaluate_formula` mechanically.
+ */
+export function describeFormula(definition: FormulaDefinition): Record<string, unknown> {
+  const properties = Object.fromEntries(
+    Object.entries(definition.variables).map(([name, variable]) => [
+      name,
+      {
+        type: variable.integer ? 'integer' : 'number',
+        description: variable.unit
+          ? `${variable.description} (${variable.unit})`
+          : variable.description,
+        ...(variable.minimum !== undefined ? { minimum: variable.minimum } : {}),
+        ...(variable.exclusiveMinimum !== undefined
+          ? { exclusiveMinimum: variable.exclusiveMinimum }
+          : {}),
+      },
+    ]),
+  );
+  return {
+    name: definition.name,
+    title: definition.title,
+    description: definition.description,
+    formula: definition.formula,
+    variables: {
+      type: 'object',
+      properties,
+      required: Object.keys(definition.variables),
+      additionalProperties: false,
+    },
+    results: definition.results,
+  };
+}
+
+/**
+ * Evaluates every result of a formula.
+ * @param values The value of each variable, already resolved to numbers.
+ * @returns The results in definition order, keyed by name.
+ * @throws {FormulaError} If a variable is missing, unexpected or violates its constraints.
+ * @throws {ExpressionError} If a result is undefined for the inputs (e.g. `sqrt` of a
+ * negative discriminant).
+ */
+export function evaluateFormula(
+  definition: FormulaDefinition,
+  values: Record<string, number>,
+): Array<{ name: string; value: number }> {
+  const checked = variablesSchema(definition).safeParse(values);
+  if (!checked.success) {
+    const [issue] = checked.error.issues;
+    const variable = issue?.path[0] ?? (issue?.code === 'unrecognized_keys' ? issue.keys[0] : '');
+    throw new FormulaError(
+      `Invalid variables for formula '${definition.name}': ${issue?.message}`,
+      {
+        formula: definition.name,
+        ...(variable !== undefined && variable !== '' ? { variable: String(variable) } : {}),
+      },
+    );
+  }
+
+  return definition.results.map((result) => ({
+    name: result.name,
+    value: evaluateExpression(parseExpression(result.expression), checked.data),
+  }));
+}
+
+/**
+ * Builds the Zod schema that validates the variables of a formula.
+ */
+function variablesSchema(definition: FormulaDefinition) {
+  const shape = Object.fromEntries(
+    Object.entries(definition.variables).map(([name, variable]) => {
+      let schema = z.number({ required_error: `'${name}' is required` }).finite();
+      if (variable.integer) {
+        schema = schema.int(`'${name}' must be an integer`);
+      }
+      if (variable.minimum !== undefined) {
+        schema = schema.min(variable.minimum, `'${name}' must be at least ${variable.minimum}`);
+      }
+      if (variable.exclusiveMinimum !== undefined) {
+        schema = schema.gt(
+          variable.exclusiveMinimum,
+          `'${name}' must be greater than ${variable.exclusiveMinimum}`,
+        );
+      }
+      return [name, schema];
+    }),
+  );
+  return z.object(shape).strict();
+}
@@ -0,0 +1,409 @@
+/**
+ * @file src/history.ts
+ * @description Filtering, cursor-based pagination, export and import of a session's
+ * calculation history, for the `calculator://history` resources and the `export_history`
+ * and `import_history` tools.
+ *
+ * WHY: Without a listing, clients had to guess calculation IDs to read
+ * `calculator://history/{calculationId}`. Paging happens on the `SessionData` returned by
+ * the session store, so it behaves identically with the in-memory and Redis stores.
+ *
+ * Cursors are opaque to clients. Internally a cursor names the last calculation of the
+ * previous page (ID and timestamp), so pages stay consistent while new calculations are
+ * appended, and a page can still be continued after that calculation was deleted or evicted.
+ *
+ * Exports have the same columns, in the same order, in every format, so a spreadsheet or
+ * script built around one export keeps working with the next. They are lossless, so
+ * `import_history` can replay them.
+ *
+ * Key Error Handling Ideas:
+ * - Malformed filters, cursors and export formats throw a `HistoryQueryError`
+ *   (`InvalidParams`).
+ * - Imports that are not a valid export throw a `HistoryImportError` (`InvalidParams`).
+ */
+
+import { z } from 'zod';
+import {
+  HistoryQueryError,
+  HistoryImportError,
+  historyQuerySchema,
+  historyExportQuerySchema,
+  MAX_IMPORT_ROWS,
+  MAX_EXPRESSION_LENGTH,
+  MAX_MATRIX_SIZE,
+} from './types.js';
+import type { Calculation, HistoryQuery, HistoryExportFormat } from './types.js';
+import { formatInputs, formatResult } from './arithmetic.js';
+
+/** Calculations per page when the query does not set a `limit`. */
+export const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * One page of the (filtered) history, oldest calculation first.
+ */
+export interface HistoryPage {
+  calculations: Calculation[];
+  /** Number of calculations matching the filters, across all pages */
+  total: number;
+  /** Pass as `cursor` to read the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+const cursorSchema = z.object({ id: z.string(), timestamp: z.number() });
+
+/**
+ * Validates the query parameters of a `calculator://history` URI.
+ * @param params The raw parameters, as extracted from the URI.
+ * @throws {HistoryQueryError} If a parameter is malformed.
+ */
+export function parseHistoryQuery(params: Record<string, string | string[]>): HistoryQuery {
+  return parseQuery(historyQuerySchema, params);
+}
+
+/**
+ * Validates the query parameters of a `calculator://history/export` URI.
+ * @param params The raw parameters, as extracted from the URI.
+ * @returns The export format, `csv` when the URI does not name one.
+ * @throws {HistoryQueryError} If the format is not supported.
+ */
+export function parseExportQuery(params: Record<string, string | string[]>): HistoryExportFormat {
+  return parseQuery(historyExportQuerySchema, params).format;
+}
+
+/**
+ * @throws {HistoryQueryError} With the first problem found, if `params` don't match `schema`.
+ */
+function parseQuery<T extends z.ZodTypeAny>(
+  schema: T,
+  params: Record<string, string | string[]>,
+): z.output<T> {
+  const checked = schema.safeParse(params);
+  if (!checked.success) {
+    const [issue] = checked.error.issues;
+    throw new HistoryQueryError(
+      `Invalid history query: ${issue?.path.join('.') || 'query'}: ${issue?.message}`,
+      { issues: checked.error.issues.map((i) => i.message) },
+    );
+  }
+  return checked.data;
+}
+
+/**
+ * Returns the page of `calculations` selected by `query`.
+ * @throws {HistoryQueryError} If the cursor is malformed.
+ */
+export function pageHistory(calculations: Calculation[], query: HistoryQuery): HistoryPage {
+  const { operation, since, until, cursor } = query;
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const matching = calculations.filter(
+    (c) =>
+      (operation === undefined || c.operation === operation) &&
+      (since === undefined || c.timestamp >= since) &&
+      (until === undefined || c.timestamp <= until),
+  );
+
+  let start = 0;
+  if (cursor !== undefined) {
+    const after = decodeCursor(cursor);
+    const index = matching.findIndex((c) => c.id === after.id);
+    // The last calculation seen is gone: continue with the first one that came after it
+    start = index >= 0 ? index + 1 : matching.findIndex((c) => c.timestamp > after.timestamp);
+    if (start < 0) {
+      start = matching.length;
+    }
+  }
+
+  const page = matching.slice(start, start + limit);
+  const last = page.at(-1);
+  return {
+    calculations: page,
+    total: matching.length,
+    ...(last && start + limit < matching.length ? { nextCursor: encodeCursor(last) } : {}),
+  };
+}
+
+/**
+ * Selects the most recent calculations for a session-aware prompt, oldest first.
+ * @param last How many calculations to keep, at most.
+ * @param operations The operations to keep; all when empty.
+ */
+export function recentCalculations(
+  calculations: Calculation[],
+  last: number,
+  operations: string[],
+): Calculation[] {
+  return calculations
+    .filter((c) => operations.length === 0 || operations.includes(c.operation))
+    .slice(-last);
+}
+
+/**
+ * Builds the `calculator://history` URI for a query, e.g. to link to the next page.
+ */
+export function historyPageUri(query: HistoryQuery): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      params.set(key, String(value));
+    }
+  }
+  const search = params.toString();
+  return search === '' ? 'calculator://history' : `calculator://history?${search}`;
+}
+
+function encodeCursor(calculation: Calculation): string {
+  return Buffer.from(
+    JSON.stringify({ id: calculation.id, timestamp: calculation.timestamp }),
+  ).toString('base64url');
+}
+
+/**
+ * @throws {HistoryQueryError} If the cursor was not produced by `encodeCursor`.
+ */
+function decodeCursor(cursor: string): z.infer<typeof cursorSchema> {
+  try {
+    return cursorSchema.parse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+  } catch {
+    throw new HistoryQueryError('Invalid history cursor; use a nextCursor returned by the server', {
+      cursor,
+    });
+  }
+}
+
+// =================================================================
+// EXPORT
+// =================================================================
+
+/** MIME type of each export format. */
+export const EXPORT_MIME_TYPES: Record<HistoryExportFormat, string> = {
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson',
+  json: 'application/json',
+};
+
+/** Export columns, in output order. New columns are only ever appended. */
+const EXPORT_COLUMNS = [
+  'id',
+  'timestamp',
+  'operation',
+  'expression',
+  'inputs',
+  'result',
+  'precision',
+  'digits',
+] as const;
+
+/**
+ * One exported calculation. Inputs and results are rendered losslessly: exact inputs and
+ * results of the `decimal` and `bigint` modes in full, quantities with their unit (`3 m`)
+ * and matrices as JSON. `expression` is empty except for expressions, equations, formulas
+ * and user functions; `digits` is empty except in `decimal` precision.
+ */
+export type HistoryExportRow = Record<(typeof EXPORT_COLUMNS)[number], string>;
+
+/**
+ * Renders a calculation as an export row.
+ */
+export function toExportRow(calculation: Calculation): HistoryExportRow {
+  const { inputUnits, unit } = calculation;
+  const inputs = calculation.structuredInputs
+    ? formatInputs(calculation)
+    : (calculation.exactInputs ?? calculation.inputs.map(String))
+        .map((input, i) => (inputUnits?.[i] ? `${input} ${inputUnits[i]}` : input))
+        .join(', ');
+  return {
+    id: calculation.id,
+    timestamp: new Date(calculation.timestamp).toISOString(),
+    operation: calculation.operation,
+    expression: calculation.expression ?? '',
+    inputs,
+    result: unit ? `${formatResult(calculation)} ${unit}` : formatResult(calculation),
+    precision: calculation.precision ?? 'float',
+    digits: calculation.digits !== undefined ? String(calculation.digits) : '',
+  };
+}
+
+/**
+ * Serializes calculations, oldest first.
+ * @param format `csv` (RFC 4180, with a header row), `ndjson` or `json` (pretty-printed).
+ */
+export function exportHistory(calculations: Calculation[], format: HistoryExportFormat): string {
+  const rows = calculations.map(toExportRow);
+
+  switch (format) {
+    case 'csv':
+      return [EXPORT_COLUMNS.join(','), ...rows.map((row) => csvRow(row))]
+        .map((line) => `${line}\r\n`)
+        .join('');
+    case 'ndjson':
+      return rows.map((row) => `${JSON.stringify(row)}\n`).join('');
+    case 'json':
+      return JSON.stringify(rows, null, 2);
+  }
+}
+
+function csvRow(row: HistoryExportRow): string {
+  return EXPORT_COLUMNS.map((column) => csvField(row[column])).join(',');
+}
+
+/**
+ * Quotes a CSV field if it contains a comma, quote or line break (RFC 4180).
+ */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// =================================================================
+// IMPORT
+// =================================================================
+
+/**
+ * Longest `inputs` column an import accepts: two matrices of the largest size the matrix
+ * tool accepts, with room for the longest number JSON writes (`-2.2250738585072014e-308`).
+ */
+const MAX_IMPORT_INPUTS_LENGTH = 2 * MAX_MATRIX_SIZE * MAX_MATRIX_SIZE * 26;
+
+/**
+ * Zod schema for an imported row. Columns added to the export later are optional, so
+ * older exports stay importable. Expressions and inputs are limited like those of the tools,
+ * since replaying them does the same work.
+ */
+const importRowSchema = z.object({
+  // IDs become part of resource URIs, so only what the server generates itself is accepted
+  id: z.string().uuid(),
+  timestamp: z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+    message: 'Expected an ISO 8601 timestamp',
+  }),
+  operation: z.string().min(1),
+  expression: z.string().max(MAX_EXPRESSION_LENGTH).default(''),
+  inputs: z.string().max(MAX_IMPORT_INPUTS_LENGTH),
+  result: z.string(),
+  precision: z.string().default('float'),
+  digits: z.string().default(''),
+});
+
+/**
+ * Parses a history exported by `exportHistory`. CSV columns are matched by their header,
+ * so their order does not matter.
+ * @throws {HistoryImportError} If the data is malformed, a row misses a column or has an
+ * invalid timestamp, a calculation ID occurs twice, or there are more than
+ * `MAX_IMPORT_ROWS` rows.
+ */
+export function parseHistoryExport(data: string, format: HistoryExportFormat): HistoryExportRow[] {
+  const records = format === 'csv' ? csvRecords(data) : jsonRecords(data, format);
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new HistoryImportError(
+      `Too many calculations to import: ${records.length} (maximum ${MAX_IMPORT_ROWS})`,
+    );
+  }
+
+  const seen = new Set<string>();
+  return records.map((record, index) => {
+    const checked = importRowSchema.safeParse(record);
+    if (!checked.success) {
+      const [issue] = checked.error.issues;
+      throw new HistoryImportError(
+        `Invalid calculation at index ${index}: ${issue?.path.join('.') || 'row'}: ${issue?.message}`,
+        { index },
+      );
+    }
+    if (seen.has(checked.data.id)) {
+      throw new HistoryImportError(
+        `Calculation ${checked.data.id} occurs more than once (index ${index})`,
+        { index, id: checked.data.id },
+      );
+    }
+    seen.add(checked.data.id);
+    return checked.data;
+  });
+}
+
+/**
+ * @throws {HistoryImportError} If the JSON or a line of NDJSON does not parse, or the JSON
+ * is not an array.
+ */
+function jsonRecords(data: string, format: 'json' | 'ndjson'): unknown[] {
+  if (format === 'ndjson') {
+    return data
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== '')
+      .map((line, index) => {
+        try {
+          return JSON.parse(line) as unknown;
+        } catch {
+          throw new HistoryImportError(`Invalid JSON on line ${index + 1} of the NDJSON data`, {
+            line: index + 1,
+          });
+        }
+      });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    throw new HistoryImportError('The data is not valid JSON');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new HistoryImportError('Expected a JSON array of calculations');
+  }
+  return parsed;
+}
+
+/**
+ * Parses RFC 4180 CSV with a header row into one object per row, keyed by column name.
+ * @throws {HistoryImportError} If a quoted field is not closed or a row has the wrong
+ * number of fields.
+ */
+function csvRecords(data: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < data.length; i++) {
+    const char = data[i];
+    if (quoted) {
+      if (char === '"' && data[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && data[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new HistoryImportError('Unterminated quoted field in the CSV data');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header = [], ...body] = rows.filter((r) => r.length > 1 || r[0] !== '');
+  return body.map((fields, index) => {
+    if (fields.length !== header.length) {
+      throw new HistoryImportError(
+        `CSV row ${index + 1} has ${fields.length} field(s), but the header has ${header.length}`,
+        { index },
+      );
+    }
+    return Object.fromEntries(header.map((column, i) => [column, fields[i] ?? '']));
+  });
+}
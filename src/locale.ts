@@ -0,0 +1,234 @@
+/**
+ * @file src/locale.ts
+ * @description Session locales: negotiating one with the client, formatting numbers for it
+ * and translating error messages into it.
+ *
+ * WHY: Students read the calculator's output as is. `2469.5` is what a student in the US
+ * expects, but in Germany and Turkey the decimal separator is a comma and `2.469` means two
+ * thousand four hundred sixty-nine. The locale belongs to the session
+ * (`SessionData.locale`), so a session reconstructed on another node keeps it.
+ *
+ * Only text meant for people is localized. Structured content, resources and exports stay
+ * locale-neutral, because programs parse them.
+ *
+ * Error messages are created deep inside the calculator modules, which know nothing about
+ * sessions. The locale of the request being handled is therefore kept in an
+ * `AsyncLocalStorage`, and `CalculatorServerError` translates its message on creation.
+ *
+ * Key Error Handling Ideas:
+ * - Negotiation never fails: tags that match no supported locale fall back to
+ *   `DEFAULT_LOCALE`. Only `set_locale` rejects them (with a `LocaleError`), because there
+ *   the client asked for a specific locale.
+ * - Messages without a translation stay in English rather than failing.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/** The locales sessions can use. */
+export const SUPPORTED_LOCALES = ['en-US', 'de-DE', 'tr-TR'] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+/** The locale of sessions whose client did not ask for a supported one. */
+export const DEFAULT_LOCALE: Locale = 'en-US';
+
+// =================================================================
+// NEGOTIATION
+// =================================================================
+
+/**
+ * Finds the supported locale for a BCP 47 language tag, ignoring case. A tag that names
+ * only a language (`de`) or another region (`de-AT`) gets the supported locale of that
+ * language.
+ * @returns The supported locale, or `undefined` if the language is not supported.
+ */
+export function matchLocale(tag: string): Locale | undefined {
+  const normalized = tag.trim().toLowerCase().replace(/_/g, '-');
+  const language = normalized.split('-')[0];
+  return (
+    SUPPORTED_LOCALES.find((locale) => locale.toLowerCase() === normalized) ??
+    SUPPORTED_LOCALES.find((locale) => locale.split('-')[0]?.toLowerCase() === language)
+  );
+}
+
+/**
+ * Picks the session locale from an `Accept-Language` header, e.g. `de-AT,de;q=0.9,en;q=0.5`.
+ * Languages are tried in order of preference; the first supported one wins.
+ * @param acceptLanguage The header value, if the client sent one.
+ */
+export function negotiateLocale(acceptLanguage: string | undefined): Locale {
+  const preferences = (acceptLanguage ?? '')
+    .split(',')
+    .map((entry) => {
+      const [tag = '', ...params] = entry.split(';').map((part) => part.trim());
+      const quality = params.find((param) => param.startsWith('q='));
+      return { tag, quality: quality === undefined ? 1 : Number(quality.slice(2)) };
+    })
+    .filter(({ tag, quality }) => tag !== '' && tag !== '*' && quality > 0)
+    // Array.prototype.sort is stable, so equally preferred languages keep their order
+    .sort((p, q) => q.quality - p.quality);
+
+  for (const { tag } of preferences) {
+    const locale = matchLocale(tag);
+    if (locale) {
+      return locale;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+// =================================================================
+// NUMBER FORMATTING
+// =================================================================
+
+/** A decimal number, optionally with an exponent, or a fraction of integers. */
+const NUMBER_PATTERN = /^(-?)(\d+)(?:\.(\d+))?(e[+-]?\d+)?(?:\/(\d+))?$/;
+
+/** Decimal and grouping separators of each locale, taken from `Intl`. */
+const SEPARATORS = new Map<Locale, { decimal: string; group: string }>();
+
+function separatorsOf(locale: Locale): { decimal: string; group: string } {
+  let separators = SEPARATORS.get(locale);
+  if (!separators) {
+    const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+    separators = {
+      decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+      group: parts.find((part) => part.type === 'group')?.value ?? ',',
+    };
+    SEPARATORS.set(locale, separators);
+  }
+  return separators;
+}
+
+/**
+ * Formats a number for display in a locale, e.g. `1234.5` as `1.234,5` in `de-DE`.
+ * @remarks `Intl.NumberFormat` would round to a fixed number of digits. Instead the shortest
+ * representation (`String(value)`) or the exact decimal string of a precision mode is kept
+ * digit for digit, and only its separators are localized. Fractions (`1/3`) and exponents
+ * (`1e+21`) keep their form; strings that are not numbers are returned unchanged.
+ */
+export function formatNumber(value: number | string, locale: Locale): string {
+  const text = typeof value === 'number' ? String(value) : value;
+  const match = NUMBER_PATTERN.exec(text);
+  if (!match) {
+    return text;
+  }
+  const [, sign = '', integer = '', fraction, exponent = '', denominator] = match;
+  const { decimal, group } = separatorsOf(locale);
+  const grouped = (digits: string): string => digits.replace(/\B(?=(\d{3})+(?!\d))/g, group);
+  return (
+    sign +
+    grouped(integer) +
+    (fraction === undefined ? '' : decimal + fraction) +
+    exponent +
+    (denominator === undefined ? '' : `/${grouped(denominator)}`)
+  );
+}
+
+/**
+ * Joins formatted numbers into a list. Where the comma is the decimal separator, the items
+ * are separated by semicolons (`1,5; 2`), as is customary there.
+ */
+export function formatList(items: string[], locale: Locale): string {
+  return items.join(separatorsOf(locale).decimal === ',' ? '; ' : ', ');
+}
+
+// =================================================================
+// ERROR MESSAGES
+// =================================================================
+
+/**
+ * The locale of the request being handled. The HTTP layer runs each request in it; outside
+ * a request (e.g. in background cleanup) there is none and messages stay in English.
+ */
+export const localeContext = new AsyncLocalStorage<Locale>();
+
+/**
+ * Translations of the error messages students run into most. Patterns match the complete
+ * English message; `$1`, `$2`, ... in a translation are the captured parts.
+ */
+const ERROR_TRANSLATIONS: Array<{ pattern: RegExp } & Record<Exclude<Locale, 'en-US'>, string>> = [
+  {
+    pattern: /^Division by zero is not allowed$/,
+    'de-DE': 'Division durch null ist nicht erlaubt',
+    'tr-TR': 'Sıfıra bölme yapılamaz',
+  },
+  {
+    pattern: /^Square root of negative number$/,
+    'de-DE': 'Die Quadratwurzel einer negativen Zahl ist nicht definiert',
+    'tr-TR': 'Negatif bir sayının karekökü tanımlı değil',
+  },
+  {
+    pattern: /^Logarithm requires positive number$/,
+    'de-DE': 'Der Logarithmus erfordert eine positive Zahl',
+    'tr-TR': 'Logaritma pozitif bir sayı gerektirir',
+  },
+  {
+    pattern: /^Factorial requires non-negative integer$/,
+    'de-DE': 'Die Fakultät erfordert eine nicht negative ganze Zahl',
+    'tr-TR': 'Faktöriyel negatif olmayan bir tam sayı gerektirir',
+  },
+  {
+    pattern: /^(?:Expression result|Result) is not a finite number$/,
+    'de-DE': 'Das Ergebnis ist keine endliche Zahl',
+    'tr-TR': 'Sonuç sonlu bir sayı değil',
+  },
+  {
+    pattern: /^Power operation requires base parameter$/,
+    'de-DE': 'Das Potenzieren erfordert den Parameter base',
+    'tr-TR': 'Üs alma işlemi base parametresini gerektirir',
+  },
+  {
+    pattern: /^Cannot compute statistics of an empty data set$/,
+    'de-DE': 'Für eine leere Datenmenge können keine Statistiken berechnet werden',
+    'tr-TR': 'Boş bir veri kümesinin istatistikleri hesaplanamaz',
+  },
+  {
+    pattern: /^Variable '(.+)' is not defined$/,
+    'de-DE': "Die Variable '$1' ist nicht definiert",
+    'tr-TR': "'$1' değişkeni tanımlı değil",
+  },
+  {
+    pattern: /^Function '(.+)' is not defined$/,
+    'de-DE': "Die Funktion '$1' ist nicht definiert",
+    'tr-TR': "'$1' fonksiyonu tanımlı değil",
+  },
+  {
+    pattern: /^Unknown variable '(.+)'$/,
+    'de-DE': "Unbekannte Variable '$1'",
+    'tr-TR': "Bilinmeyen değişken '$1'",
+  },
+  {
+    pattern: /^Unknown function '(.+)'$/,
+    'de-DE': "Unbekannte Funktion '$1'",
+    'tr-TR': "Bilinmeyen fonksiyon '$1'",
+  },
+  {
+    pattern: /^Unknown unit '(.+)'$/,
+    'de-DE': "Unbekannte Einheit '$1'",
+    'tr-TR': "Bilinmeyen birim '$1'",
+  },
+  {
+    pattern: /^Unexpected character '(.+)' at position (\d+)$/,
+    'de-DE': "Unerwartetes Zeichen '$1' an Position $2",
+    'tr-TR': "$2. konumda beklenmeyen karakter '$1'",
+  },
+  {
+    pattern: /^Session could not be found or has expired\.$/,
+    'de-DE': 'Die Sitzung wurde nicht gefunden oder ist abgelaufen.',
+    'tr-TR': 'Oturum bulunamadı veya süresi doldu.',
+  },
+];
+
+/**
+ * Translates an error message into the locale of the request being handled.
+ * @returns The translation, or the message itself if there is none.
+ */
+export function localizeMessage(message: string): string {
+  const locale = localeContext.getStore() ?? DEFAULT_LOCALE;
+  if (locale === 'en-US') {
+    return message;
+  }
+  const translation = ERROR_TRANSLATIONS.find(({ pattern }) => pattern.test(message));
+  return translation ? message.replace(translation.pattern, translation[locale]) : message;
+}
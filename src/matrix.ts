@@ -0,0 +1,221 @@
+/**
+ * @file src/matrix.ts
+ * @description Dense matrix arithmetic for the `matrix_calculate` tool: addition,
+ * subtraction, multiplication, transpose, determinant, inverse and solving `Ax = b`.
+ *
+ * WHY: Linear algebra is the most requested capability beyond scalar arithmetic. The
+ * matrices involved in chat are small (at most 20x20, enforced by the Zod schemas), so
+ * straightforward Gaussian elimination with partial pivoting is both fast and accurate enough.
+ *
+ * Shape checks live in the Zod schemas in `types.ts`, so by the time these functions run
+ * the dimensions are known to be compatible.
+ *
+ * Key Error Handling Ideas:
+ * - A singular matrix (no inverse, no unique solution) throws an `ArithmeticError`
+ *   (`InvalidParams`), because the caller's input has no answer.
+ */
+
+import { ArithmeticError } from './types.js';
+import type { Matrix, MatrixCalculateArgs } from './types.js';
+import { formatNumber, formatList } from './locale.js';
+import type { Locale } from './locale.js';
+
+/** The operations of `matrix_calculate`. */
+export type MatrixOperation = MatrixCalculateArgs['operation'];
+
+/**
+ * Pivots smaller than this (relative to the largest entry of the matrix) are treated as
+ * zero, so nearly singular matrices are reported instead of producing huge, meaningless values.
+ */
+const SINGULAR_TOLERANCE = 1e-12;
+
+/**
+ * The outcome of a matrix operation: a scalar (the determinant), a matrix, or a vector when
+ * `b` was given as a vector to `multiply` or `solve`.
+ */
+export type MatrixOutcome = { scalar: number } | { matrix: Matrix } | { vector: number[] };
+
+/**
+ * Runs a matrix operation on validated operands.
+ * @param b The second operand for `add`, `subtract`, `multiply` and `solve`; a vector is
+ *   treated as a single column.
+ * @throws {ArithmeticError} If the matrix is singular or the result is not finite.
+ */
+export function calculateMatrix(
+  operation: MatrixOperation,
+  a: Matrix,
+  b: Matrix | number[] | undefined,
+): MatrixOutcome {
+  const right = b === undefined ? [] : toMatrix(b);
+  let outcome: MatrixOutcome;
+  switch (operation) {
+    case 'add':
+      outcome = { matrix: a.map((row, i) => row.map((v, j) => v + (right[i]?.[j] ?? 0))) };
+      break;
+    case 'subtract':
+      outcome = { matrix: a.map((row, i) => row.map((v, j) => v - (right[i]?.[j] ?? 0))) };
+      break;
+    case 'multiply':
+      outcome = { matrix: multiply(a, right) };
+      break;
+    case 'transpose':
+      outcome = { matrix: transpose(a) };
+      break;
+    case 'determinant':
+      outcome = { scalar: determinant(a) };
+      break;
+    case 'inverse':
+      outcome = { matrix: solve(a, identity(a.length), 'Matrix is singular and has no inverse') };
+      break;
+    case 'solve':
+      outcome = {
+        matrix: solve(a, right, 'Matrix is singular; the system has no unique solution'),
+      };
+      break;
+  }
+
+  if ('matrix' in outcome && b !== undefined && isVector(b)) {
+    outcome = { vector: outcome.matrix.map((row) => row[0] ?? 0) };
+  }
+  if (!outcomeValues(outcome).every(Number.isFinite)) {
+    throw new ArithmeticError('Result is not a finite number');
+  }
+  return outcome;
+}
+
+/**
+ * Whether an operand is a vector (a flat list of numbers) rather than a matrix.
+ */
+export function isVector(value: Matrix | number[]): value is number[] {
+  return !Array.isArray(value[0]);
+}
+
+/**
+ * Returns every number contained in an outcome.
+ */
+function outcomeValues(outcome: MatrixOutcome): number[] {
+  if ('scalar' in outcome) {
+    return [outcome.scalar];
+  }
+  return 'matrix' in outcome ? outcome.matrix.flat() : outcome.vector;
+}
+
+/**
+ * Converts a vector into a single-column matrix; matrices are returned unchanged.
+ */
+export function toMatrix(value: Matrix | number[]): Matrix {
+  return value.map((entry) => (Array.isArray(entry) ? entry : [entry]));
+}
+
+/**
+ * Renders a matrix as `[[1, 2], [3, 4]]` and a vector as `[1, 2]`.
+ * @param locale Formats the entries for display in a locale (`[1,5; 2]`); without one they
+ * are rendered locale-neutral.
+ */
+export function formatMatrix(value: Matrix | number[], locale?: Locale): string {
+  const list = (entries: string[]): string =>
+    locale ? formatList(entries, locale) : entries.join(', ');
+  const row = (entries: number[]): string =>
+    `[${list(entries.map((entry) => (locale ? formatNumber(entry, locale) : String(entry))))}]`;
+  return isVector(value) ? row(value) : `[${list(value.map(row))}]`;
+}
+
+function transpose(a: Matrix): Matrix {
+  return (a[0] ?? []).map((_, j) => a.map((row) => row[j] ?? 0));
+}
+
+function multiply(a: Matrix, b: Matrix): Matrix {
+  const columns = transpose(b);
+  return a.map((row) =>
+    columns.map((column) => row.reduce((sum, v, k) => sum + v * (column[k] ?? 0), 0)),
+  );
+}
+
+function identity(n: number): Matrix {
+  return Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)),
+  );
+}
+
+/**
+ * Reduces a copy of `a` to upper triangular form with partial pivoting, applying the same
+ * row operations to `rhs`. Returns `null` if a pivot is (numerically) zero.
+ * @returns The triangular matrix, the transformed right-hand side and the sign of the
+ *   row permutation (needed for the determinant).
+ */
+function eliminate(a: Matrix, rhs: Matrix): { upper: Matrix; rhs: Matrix; sign: number } | null {
+  const n = a.length;
+  const upper = a.map((row) => [...row]);
+  const right = rhs.map((row) => [...row]);
+  const scale = Math.max(...a.flat().map(Math.abs));
+  let sign = 1;
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(upper[row]?.[col] ?? 0) > Math.abs(upper[pivot]?.[col] ?? 0)) {
+        pivot = row;
+      }
+    }
+    const pivotValue = upper[pivot]?.[col] ?? 0;
+    if (Math.abs(pivotValue) <= SINGULAR_TOLERANCE * scale) {
+      return null;
+    }
+    if (pivot !== col) {
+      [upper[col], upper[pivot]] = [upper[pivot] ?? [], upper[col] ?? []];
+      [right[col], right[pivot]] = [right[pivot] ?? [], right[col] ?? []];
+      sign = -sign;
+    }
+
+    const pivotRow = upper[col] ?? [];
+    const pivotRight = right[col] ?? [];
+    for (let row = col + 1; row < n; row++) {
+      const target = upper[row] ?? [];
+      const targetRight = right[row] ?? [];
+      const factor = (target[col] ?? 0) / pivotValue;
+      for (let k = col; k < n; k++) {
+        target[k] = (target[k] ?? 0) - factor * (pivotRow[k] ?? 0);
+      }
+      for (let k = 0; k < targetRight.length; k++) {
+        targetRight[k] = (targetRight[k] ?? 0) - factor * (pivotRight[k] ?? 0);
+      }
+    }
+  }
+  return { upper, rhs: right, sign };
+}
+
+function determinant(a: Matrix): number {
+  const reduced = eliminate(a, []);
+  if (!reduced) {
+    return 0;
+  }
+  return reduced.upper.reduce((product, row, i) => product * (row[i] ?? 0), reduced.sign);
+}
+
+/**
+ * Solves `a * X = rhs` for `X` by elimination and back substitution.
+ * @throws {ArithmeticError} With `singularMessage` if `a` is singular.
+ */
+function solve(a: Matrix, rhs: Matrix, singularMessage: string): Matrix {
+  const reduced = eliminate(a, rhs);
+  if (!reduced) {
+    throw new ArithmeticError(singularMessage);
+  }
+  const { upper, rhs: right } = reduced;
+  const n = a.length;
+  const width = right[0]?.length ?? 0;
+  const x: Matrix = Array.from({ length: n }, () => new Array<number>(width).fill(0));
+
+  for (let i = n - 1; i >= 0; i--) {
+    const row = upper[i] ?? [];
+    for (let k = 0; k < width; k++) {
+      let sum = right[i]?.[k] ?? 0;
+      for (let j = i + 1; j < n; j++) {
+        sum -= (row[j] ?? 0) * (x[j]?.[k] ?? 0);
+      }
+      // Adding 0 turns -0 into 0 so results print cleanly
+      (x[i] ?? [])[k] = sum / (row[i] ?? 1) + 0;
+    }
+  }
+  return x;
+}
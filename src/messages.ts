@@ -0,0 +1,349 @@
+/**
+ * @file src/messages.ts
+ * @description The text of the prompt templates, and of the questions tools ask the user
+ * through elicitation, in every supported locale.
+ *
+ * WHY: Prompts and questions are text a student or an assistant reads, so they are written in
+ * the session's language (`SessionData.locale`). Keeping every language of a prompt side by side, behind
+ * one typed interface, makes a missing translation a compile error rather than a silent
+ * fallback to English.
+ *
+ * Arguments the client typed (operations, topics, problems, ...) are inserted as given.
+ *
+ * Key Error Handling Ideas:
+ * - Nothing here throws: the arguments have been validated by the prompt schemas already.
+ */
+
+import type { ExplanationLevel, ProblemDifficulty } from './types.js';
+import type { Locale } from './locale.js';
+
+/** The description and the user message of a prompt. */
+export interface PromptText {
+  description: string;
+  text: string;
+}
+
+/** A question a tool asks the user, and the label of the field for the answer. */
+export interface QuestionText {
+  message: string;
+  label: string;
+}
+
+/** The questions of one locale. Numbers in the arguments are formatted for it already. */
+export interface QuestionMessages {
+  powerBase(args: { exponent: string }): QuestionText;
+  clearVariables(args: { count: number }): QuestionText;
+  replaceHistory(args: { count: number }): QuestionText;
+}
+
+/** The prompts of one locale. */
+export interface PromptMessages {
+  explainCalculation(args: { operation: string; level: ExplanationLevel }): PromptText;
+  generateProblems(args: {
+    topic: string;
+    difficulty: ProblemDifficulty;
+    count: number;
+  }): PromptText;
+  solveMathProblem(args: { problem: string; showWork: boolean }): PromptText;
+  explainFormula(args: { formula: string; context: string | undefined }): PromptText;
+  calculatorAssistant(args: { query: string }): PromptText;
+  /** `count` is the number of embedded calculations; `operations` is the filter, if any */
+  reviewCalculations(args: { count: number; operations: string[] }): PromptText;
+  summarizeSession(args: { count: number; operations: string[] }): PromptText;
+}
+
+// =================================================================
+// en-US
+// =================================================================
+
+const EN_LEVELS: Record<ExplanationLevel, string> = {
+  basic:
+    'Use plain language and small whole numbers, spell out every step, and avoid notation beyond the basic operators.',
+  intermediate:
+    'Explain why each step works, show the general method in symbols as well as with numbers, and mention shortcuts and how to check the result.',
+  advanced:
+    'Cover the underlying properties (such as associativity, inverses or limits), edge cases like zero, negative and non-integer inputs, and numerical precision issues.',
+};
+
+const EN_DIFFICULTIES: Record<ProblemDifficulty, string> = {
+  easy: 'Each problem should take one or two steps with small, friendly numbers and state exactly what to calculate. Give the answer with a one-line explanation.',
+  medium:
+    'Use multi-step problems with realistic numbers (fractions, decimals or negatives where they fit), including some word problems. Give a worked solution for each.',
+  hard: 'Combine several concepts in each problem, include at least one non-routine problem that needs a strategy rather than a formula, and one that asks for a justification. Give full worked solutions and point out common pitfalls.',
+};
+
+const enFilter = (operations: string[]): string =>
+  operations.length > 0 ? ` (operations: ${operations.join(', ')})` : '';
+
+const EN_US: PromptMessages = {
+  explainCalculation: ({ operation, level }) => ({
+    description: `Step-by-step explanation of ${operation} at ${level} level`,
+    text: `Please explain how to ${operation} step by step at the ${level} level. ${EN_LEVELS[level]} Include examples and common mistakes to avoid.`,
+  }),
+  generateProblems: ({ topic, difficulty, count }) => {
+    const problems = count === 1 ? 'problem' : 'problems';
+    return {
+      description: `Generate ${count} ${difficulty} ${topic} ${problems}`,
+      text: `Generate ${count} ${difficulty}-level practice ${problems} for ${topic}. ${EN_DIFFICULTIES[difficulty]}`,
+    };
+  },
+  solveMathProblem: ({ problem, showWork }) => ({
+    description: `Solve: ${problem}`,
+    text: `Solve this problem: ${problem}. ${showWork ? 'Show all work and explain each step.' : 'Provide the solution.'}`,
+  }),
+  explainFormula: ({ formula, context }) => ({
+    description: `Explain the formula: ${formula}`,
+    text: `Explain the formula "${formula}"${context ? ` in the context of ${context}` : ''}. Include what each variable represents and when to use this formula.`,
+  }),
+  calculatorAssistant: ({ query }) => ({
+    description: 'Calculator assistance request',
+    text: `I need help with this calculation: ${query}. Please provide step-by-step guidance.`,
+  }),
+  reviewCalculations: ({ count, operations }) =>
+    count === 0
+      ? {
+          description: 'No calculations to review',
+          text: `My calculator session has no calculations${enFilter(operations)} yet, so there is nothing to review. What could I calculate to get started?`,
+        }
+      : {
+          description: `Review of ${count} calculation(s)${enFilter(operations)}`,
+          text: `Please review these ${count} calculation(s) from my calculator session${enFilter(operations)}. For each one, check that the result is consistent with the inputs, flag anything that looks wrong or surprising (such as floating point rounding or a division by a very small number), and suggest how to double-check it.`,
+        },
+  summarizeSession: ({ count, operations }) => ({
+    description: `Summary of the session with ${count} calculation(s)${enFilter(operations)}`,
+    text:
+      count > 0
+        ? `Summarize my calculator session: what I calculated, the key results, and any patterns or follow-up calculations worth doing. The session information and my ${count} most recent calculation(s)${enFilter(operations)} are attached.`
+        : `Summarize my calculator session. The session information is attached; it has no calculations${enFilter(operations)} yet.`,
+  }),
+};
+
+// =================================================================
+// de-DE
+// =================================================================
+
+const DE_LEVELS: Record<ExplanationLevel, { name: string; guidance: string }> = {
+  basic: {
+    name: 'Grundniveau',
+    guidance:
+      'Verwende einfache Sprache und kleine ganze Zahlen, schreibe jeden Schritt aus und verzichte auf Schreibweisen über die Grundrechenzeichen hinaus.',
+  },
+  intermediate: {
+    name: 'mittleren Niveau',
+    guidance:
+      'Erkläre, warum jeder Schritt funktioniert, zeige das allgemeine Verfahren in Symbolen und mit Zahlen, und nenne Abkürzungen und wie man das Ergebnis überprüft.',
+  },
+  advanced: {
+    name: 'fortgeschrittenen Niveau',
+    guidance:
+      'Gehe auf die zugrunde liegenden Eigenschaften ein (etwa Assoziativität, Inverse oder Grenzwerte), auf Sonderfälle wie null, negative und nicht ganzzahlige Eingaben sowie auf Probleme der Rechengenauigkeit.',
+  },
+};
+
+const DE_DIFFICULTIES: Record<ProblemDifficulty, { name: string; guidance: string }> = {
+  easy: {
+    name: 'leichte',
+    guidance:
+      'Jede Aufgabe soll in ein oder zwei Schritten mit kleinen, einfachen Zahlen lösbar sein und genau sagen, was zu berechnen ist. Gib die Lösung mit einer einzeiligen Erklärung an.',
+  },
+  medium: {
+    name: 'mittelschwere',
+    guidance:
+      'Stelle mehrschrittige Aufgaben mit realistischen Zahlen (Brüche, Dezimalzahlen oder negative Zahlen, wo sie passen), darunter einige Textaufgaben. Gib zu jeder Aufgabe einen ausführlichen Lösungsweg an.',
+  },
+  hard: {
+    name: 'schwere',
+    guidance:
+      'Verbinde in jeder Aufgabe mehrere Konzepte, stelle mindestens eine ungewöhnliche Aufgabe, die eine Strategie statt einer Formel erfordert, und eine, die eine Begründung verlangt. Gib vollständige Lösungswege an und weise auf typische Fehler hin.',
+  },
+};
+
+const deFilter = (operations: string[]): string =>
+  operations.length > 0 ? ` (Operationen: ${operations.join(', ')})` : '';
+
+const deCalculations = (count: number): string =>
+  `${count} ${count === 1 ? 'Berechnung' : 'Berechnungen'}`;
+
+const DE_DE: PromptMessages = {
+  explainCalculation: ({ operation, level }) => ({
+    description: `Schrittweise Erklärung von ${operation} auf dem ${DE_LEVELS[level].name}`,
+    text: `Bitte erkläre Schritt für Schritt auf dem ${DE_LEVELS[level].name}, wie man ${operation} berechnet. ${DE_LEVELS[level].guidance} Gib Beispiele und nenne häufige Fehler, die man vermeiden sollte.`,
+  }),
+  generateProblems: ({ topic, difficulty, count }) => {
+    const problems = count === 1 ? 'Übungsaufgabe' : 'Übungsaufgaben';
+    const { name, guidance } = DE_DIFFICULTIES[difficulty];
+    return {
+      description: `${count} ${name} ${problems} zu ${topic} erstellen`,
+      text: `Erstelle ${count} ${name} ${problems} zum Thema ${topic}. ${guidance}`,
+    };
+  },
+  solveMathProblem: ({ problem, showWork }) => ({
+    description: `Lösen: ${problem}`,
+    text: `Löse diese Aufgabe: ${problem}. ${showWork ? 'Zeige den vollständigen Rechenweg und erkläre jeden Schritt.' : 'Gib die Lösung an.'}`,
+  }),
+  explainFormula: ({ formula, context }) => ({
+    description: `Erklärung der Formel: ${formula}`,
+    text: `Erkläre die Formel „${formula}“${context ? ` im Zusammenhang mit ${context}` : ''}. Erkläre, wofür jede Variable steht und wann man diese Formel verwendet.`,
+  }),
+  calculatorAssistant: ({ query }) => ({
+    description: 'Hilfe beim Rechnen',
+    text: `Ich brauche Hilfe bei dieser Rechnung: ${query}. Bitte leite mich Schritt für Schritt an.`,
+  }),
+  reviewCalculations: ({ count, operations }) =>
+    count === 0
+      ? {
+          description: 'Keine Berechnungen zu prüfen',
+          text: `Meine Rechnersitzung enthält noch keine Berechnungen${deFilter(operations)}, es gibt also nichts zu prüfen. Was könnte ich zum Einstieg berechnen?`,
+        }
+      : {
+          description: `Prüfung von ${deCalculations(count)}${deFilter(operations)}`,
+          text: `Bitte prüfe diese ${deCalculations(count)} aus meiner Rechnersitzung${deFilter(operations)}. Prüfe bei jeder, ob das Ergebnis zu den Eingaben passt, weise auf alles hin, was falsch oder überraschend aussieht (etwa Rundungsfehler bei Gleitkommazahlen oder eine Division durch eine sehr kleine Zahl), und schlage vor, wie man sie nachprüfen kann.`,
+        },
+  summarizeSession: ({ count, operations }) => ({
+    description: `Zusammenfassung der Sitzung mit ${deCalculations(count)}${deFilter(operations)}`,
+    text:
+      count > 0
+        ? `Fasse meine Rechnersitzung zusammen: was ich berechnet habe, die wichtigsten Ergebnisse und Muster oder weitere Berechnungen, die sich lohnen. Die Sitzungsinformationen und meine letzten ${deCalculations(count)}${deFilter(operations)} sind angehängt.`
+        : `Fasse meine Rechnersitzung zusammen. Die Sitzungsinformationen sind angehängt; sie enthält noch keine Berechnungen${deFilter(operations)}.`,
+  }),
+};
+
+// =================================================================
+// tr-TR
+// =================================================================
+
+const TR_LEVELS: Record<ExplanationLevel, { name: string; guidance: string }> = {
+  basic: {
+    name: 'temel',
+    guidance:
+      'Sade bir dil ve küçük tam sayılar kullan, her adımı açıkça yaz ve temel işlem işaretleri dışında gösterim kullanma.',
+  },
+  intermediate: {
+    name: 'orta',
+    guidance:
+      'Her adımın neden işe yaradığını açıkla, genel yöntemi hem sembollerle hem de sayılarla göster, kısa yolları ve sonucun nasıl kontrol edileceğini belirt.',
+  },
+  advanced: {
+    name: 'ileri',
+    guidance:
+      'Altta yatan özellikleri (birleşme, ters eleman veya limit gibi), sıfır, negatif ve tam sayı olmayan girdiler gibi özel durumları ve sayısal hassasiyet sorunlarını ele al.',
+  },
+};
+
+const TR_DIFFICULTIES: Record<ProblemDifficulty, { name: string; guidance: string }> = {
+  easy: {
+    name: 'kolay',
+    guidance:
+      'Her problem küçük, kolay sayılarla bir veya iki adımda çözülebilmeli ve tam olarak neyin hesaplanacağını belirtmeli. Cevabı tek satırlık bir açıklamayla ver.',
+  },
+  medium: {
+    name: 'orta',
+    guidance:
+      'Gerçekçi sayılarla (uygun yerlerde kesirler, ondalık veya negatif sayılar) çok adımlı problemler ve birkaç sözel problem hazırla. Her biri için adım adım çözüm ver.',
+  },
+  hard: {
+    name: 'zor',
+    guidance:
+      'Her problemde birkaç kavramı birleştir; en az bir tanesi formül yerine strateji gerektiren alışılmadık bir problem, bir tanesi de gerekçe isteyen bir problem olsun. Ayrıntılı çözümler ver ve sık yapılan hatalara dikkat çek.',
+  },
+};
+
+const trFilter = (operations: string[]): string =>
+  operations.length > 0 ? ` (işlemler: ${operations.join(', ')})` : '';
+
+const TR_TR: PromptMessages = {
+  explainCalculation: ({ operation, level }) => ({
+    description: `${operation} işleminin ${TR_LEVELS[level].name} düzeyde adım adım açıklaması`,
+    text: `Lütfen ${operation} işleminin nasıl yapıldığını ${TR_LEVELS[level].name} düzeyde adım adım açıkla. ${TR_LEVELS[level].guidance} Örnekler ver ve kaçınılması gereken yaygın hatalardan bahset.`,
+  }),
+  generateProblems: ({ topic, difficulty, count }) => ({
+    description: `${topic} konusunda ${count} ${TR_DIFFICULTIES[difficulty].name} problem oluştur`,
+    text: `${topic} konusunda ${TR_DIFFICULTIES[difficulty].name} düzeyde ${count} alıştırma problemi oluştur. ${TR_DIFFICULTIES[difficulty].guidance}`,
+  }),
+  solveMathProblem: ({ problem, showWork }) => ({
+    description: `Çöz: ${problem}`,
+    text: `Bu problemi çöz: ${problem}. ${showWork ? 'Tüm işlemleri göster ve her adımı açıkla.' : 'Çözümü ver.'}`,
+  }),
+  explainFormula: ({ formula, context }) => ({
+    description: `Formülün açıklaması: ${formula}`,
+    text: `"${formula}" formülünü${context ? ` ${context} bağlamında` : ''} açıkla. Her değişkenin neyi temsil ettiğini ve bu formülün ne zaman kullanıldığını belirt.`,
+  }),
+  calculatorAssistant: ({ query }) => ({
+    description: 'Hesaplama yardımı isteği',
+    text: `Bu hesaplamada yardıma ihtiyacım var: ${query}. Lütfen adım adım yol göster.`,
+  }),
+  reviewCalculations: ({ count, operations }) =>
+    count === 0
+      ? {
+          description: 'İncelenecek hesaplama yok',
+          text: `Hesap makinesi oturumumda henüz hiç hesaplama${trFilter(operations)} yok, dolayısıyla incelenecek bir şey yok. Başlamak için ne hesaplayabilirim?`,
+        }
+      : {
+          description: `${count} hesaplamanın incelenmesi${trFilter(operations)}`,
+          text: `Lütfen hesap makinesi oturumumdaki şu ${count} hesaplamayı${trFilter(operations)} incele. Her biri için sonucun girdilerle tutarlı olup olmadığını kontrol et, yanlış veya şaşırtıcı görünen her şeyi (kayan nokta yuvarlaması veya çok küçük bir sayıya bölme gibi) belirt ve nasıl doğrulanabileceğini öner.`,
+        },
+  summarizeSession: ({ count, operations }) => ({
+    description: `${count} hesaplama içeren oturumun özeti${trFilter(operations)}`,
+    text:
+      count > 0
+        ? `Hesap makinesi oturumumu özetle: neler hesapladığımı, önemli sonuçları ve varsa örüntüleri veya yapmaya değer ek hesaplamaları. Oturum bilgileri ve en son ${count} hesaplamam${trFilter(operations)} ektedir.`
+        : `Hesap makinesi oturumumu özetle. Oturum bilgileri ektedir; oturumda henüz hiç hesaplama${trFilter(operations)} yok.`,
+  }),
+};
+
+/** The prompts of each supported locale. */
+export const PROMPT_MESSAGES: Record<Locale, PromptMessages> = {
+  'en-US': EN_US,
+  'de-DE': DE_DE,
+  'tr-TR': TR_TR,
+};
+
+// =================================================================
+// QUESTIONS
+// =================================================================
+
+/** The questions tools ask the user in each supported locale. */
+export const QUESTION_MESSAGES: Record<Locale, QuestionMessages> = {
+  'en-US': {
+    powerBase: ({ exponent }) => ({
+      message: `Which number should be raised to the power of ${exponent}?`,
+      label: 'Base',
+    }),
+    clearVariables: ({ count }) => ({
+      message: `Clear all ${count} session variable(s)? This cannot be undone.`,
+      label: 'Clear all variables',
+    }),
+    replaceHistory: ({ count }) => ({
+      message: `Replace the ${count} calculation(s) in the session history with the imported ones? The current history cannot be restored.`,
+      label: 'Replace the history',
+    }),
+  },
+  'de-DE': {
+    powerBase: ({ exponent }) => ({
+      message: `Welche Zahl soll mit ${exponent} potenziert werden?`,
+      label: 'Basis',
+    }),
+    clearVariables: ({ count }) => ({
+      message: `${count === 1 ? 'Die Sitzungsvariable' : `Alle ${count} Sitzungsvariablen`} löschen? Das kann nicht rückgängig gemacht werden.`,
+      label: 'Alle Variablen löschen',
+    }),
+    replaceHistory: ({ count }) => ({
+      message: `${count === 1 ? 'Die Berechnung' : `Die ${deCalculations(count)}`} im Verlauf der Sitzung durch die importierten ersetzen? Der bisherige Verlauf kann nicht wiederhergestellt werden.`,
+      label: 'Verlauf ersetzen',
+    }),
+  },
+  'tr-TR': {
+    powerBase: ({ exponent }) => ({
+      message: `Hangi sayının ${exponent}. kuvveti alınsın?`,
+      label: 'Taban',
+    }),
+    clearVariables: ({ count }) => ({
+      message: `${count} oturum değişkeninin tümü silinsin mi? Bu işlem geri alınamaz.`,
+      label: 'Tüm değişkenleri sil',
+    }),
+    replaceHistory: ({ count }) => ({
+      message: `Oturum geçmişindeki ${count} hesaplama içe aktarılanlarla değiştirilsin mi? Mevcut geçmiş geri yüklenemez.`,
+      label: 'Geçmişi değiştir',
+    }),
+  },
+};
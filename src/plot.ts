@@ -0,0 +1,337 @@
+/**
+ * @file src/plot.ts
+ * @description Samples expressions over a range and renders them as an SVG line chart for the
+ * `plot_function` tool and the `calculator://plots/{plotId}` resource.
+ *
+ * WHY: "Show me the graph" is one of the most common requests when the calculator is used for
+ * teaching. SVG is plain text, so a chart can be drawn in pure TypeScript (no canvas or other
+ * native dependency), sent as image content, and stored with the session like any other data.
+ *
+ * Key Error Handling Ideas:
+ * - Syntax errors, unknown names and wrong arities throw the expression engine's
+ *   `ExpressionError`, because the expression is broken everywhere, not just at some points.
+ * - Points where an expression is undefined (`sqrt(-1)`, `1/0`, ...) become gaps in the line.
+ * - Empty or inverted ranges throw a `PlotError` (`InvalidParams`).
+ */
+
+import { ExpressionError, PlotError } from './types.js';
+import {
+  parseExpression,
+  evaluateExpression,
+  formatExpression,
+  collectVariables,
+  collectFunctions,
+  isNameError,
+  EXPRESSION_CONSTANTS,
+  EXPRESSION_FUNCTIONS,
+} from './expression.js';
+import type { ExpressionScope } from './expression.js';
+
+/** Points sampled per expression when the caller does not say otherwise. */
+export const DEFAULT_SAMPLES = 200;
+
+/** Chart size in pixels when the caller does not say otherwise. */
+export const DEFAULT_WIDTH = 640;
+export const DEFAULT_HEIGHT = 400;
+
+/** Line colours, one per expression (at most five expressions are plotted at once). */
+const COLORS = ['#1f77b4', '#d62728', '#2ca02c', '#ff7f0e', '#9467bd'];
+
+const MARGIN = { top: 40, right: 20, bottom: 45, left: 65 };
+
+/**
+ * One sampled expression. `y` is `null` where the expression is undefined.
+ */
+export interface PlotSeries {
+  /** Canonical form of the expression */
+  expression: string;
+  points: Array<{ x: number; y: number | null }>;
+}
+
+/**
+ * Everything needed to sample and draw a chart.
+ */
+export interface PlotOptions {
+  variable: string;
+  from: number;
+  to: number;
+  samples: number;
+  yMin?: number | undefined;
+  yMax?: number | undefined;
+  title: string;
+  width: number;
+  height: number;
+}
+
+// =================================================================
+// SAMPLING
+// =================================================================
+
+/**
+ * Evaluates each expression at `samples` evenly spaced points from `from` to `to`.
+ * @param scope Session variables visible to the expressions; the plotted variable shadows them.
+ * @throws {PlotError} If the x range is empty or inverted.
+ * @throws {ExpressionError} If an expression is invalid or uses an unknown name.
+ */
+export function samplePlot(
+  expressions: string[],
+  scope: ExpressionScope,
+  options: Pick<PlotOptions, 'variable' | 'from' | 'to' | 'samples'>,
+): PlotSeries[] {
+  const { variable, from, to, samples } = options;
+  if (!(from < to)) {
+    throw new PlotError(`The x range is empty: from (${from}) must be less than to (${to})`, {
+      from,
+      to,
+    });
+  }
+
+  return expressions.map((source) => {
+    const ast = parseExpression(source);
+
+    // Unknown names are reported up front; otherwise a domain error at every sample (a gap
+    // everywhere) could hide them
+    const unknownVariable = collectVariables(ast).find(
+      (name) =>
+        name !== variable && !Object.hasOwn(scope, name) && !EXPRESSION_CONSTANTS.includes(name),
+    );
+    if (unknownVariable !== undefined) {
+      throw new ExpressionError(`Unknown variable '${unknownVariable}'`, {
+        variable: unknownVariable,
+      });
+    }
+    const unknownFunction = collectFunctions(ast).find(
+      (name) => !EXPRESSION_FUNCTIONS.includes(name),
+    );
+    if (unknownFunction !== undefined) {
+      throw new ExpressionError(`Unknown function '${unknownFunction}'`, {
+        function: unknownFunction,
+      });
+    }
+
+    const local: Record<string, number> = { ...scope };
+    const points = Array.from({ length: samples }, (_, i) => {
+      const x = from + ((to - from) * i) / (samples - 1);
+      local[variable] = x;
+      try {
+        return { x, y: evaluateExpression(ast, local) };
+      } catch (error) {
+        if (!(error instanceof ExpressionError) || isNameError(error)) {
+          throw error;
+        }
+        return { x, y: null };
+      }
+    });
+    return { expression: formatExpression(ast), points };
+  });
+}
+
+// =================================================================
+// RENDERING
+// =================================================================
+
+/**
+ * Renders sampled series as a standalone SVG document.
+ * @throws {PlotError} If `yMin`/`yMax` leave an empty y range.
+ */
+export function renderPlot(series: PlotSeries[], options: PlotOptions): string {
+  const { from, to, width, height } = options;
+  const [low, high] = yRange(series, options.yMin, options.yMax);
+
+  const plotWidth = width - MARGIN.left - MARGIN.right;
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+  const left = MARGIN.left;
+  const top = MARGIN.top;
+  const bottom = top + plotHeight;
+  const right = left + plotWidth;
+  const sx = (x: number): number => round(left + ((x - from) / (to - from)) * plotWidth);
+  // Far off-chart values are pulled in to keep the path data sane; the clip path hides them
+  const sy = (y: number): number =>
+    round(
+      Math.min(
+        Math.max(top + ((high - y) / (high - low)) * plotHeight, top - plotHeight),
+        bottom + plotHeight,
+      ),
+    );
+
+  const xTicks = niceTicks(from, to);
+  const yTicks = niceTicks(low, high);
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif" font-size="12">`,
+    `<title>${escapeXml(options.title)}</title>`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    `<text x="${round(width / 2)}" y="24" text-anchor="middle" font-size="16" fill="#222222">${escapeXml(options.title)}</text>`,
+    `<defs><clipPath id="plot-area"><rect x="${left}" y="${top}" width="${plotWidth}" height="${plotHeight}"/></clipPath></defs>`,
+  ];
+
+  // Grid lines and tick labels
+  parts.push('<g stroke="#e5e5e5" stroke-width="1">');
+  for (const x of xTicks) {
+    parts.push(`<line x1="${sx(x)}" y1="${top}" x2="${sx(x)}" y2="${bottom}"/>`);
+  }
+  for (const y of yTicks) {
+    parts.push(`<line x1="${left}" y1="${sy(y)}" x2="${right}" y2="${sy(y)}"/>`);
+  }
+  parts.push('</g>', '<g fill="#444444">');
+  for (const x of xTicks) {
+    parts.push(
+      `<text x="${sx(x)}" y="${bottom + 16}" text-anchor="middle">${formatTick(x)}</text>`,
+    );
+  }
+  for (const y of yTicks) {
+    parts.push(`<text x="${left - 6}" y="${sy(y) + 4}" text-anchor="end">${formatTick(y)}</text>`);
+  }
+  parts.push(
+    `<text x="${round(left + plotWidth / 2)}" y="${height - 8}" text-anchor="middle" font-style="italic">${escapeXml(options.variable)}</text>`,
+    '</g>',
+  );
+
+  // The axes through the origin, where they are visible
+  parts.push('<g stroke="#888888" stroke-width="1">');
+  if (low <= 0 && 0 <= high) {
+    parts.push(`<line x1="${left}" y1="${sy(0)}" x2="${right}" y2="${sy(0)}"/>`);
+  }
+  if (from <= 0 && 0 <= to) {
+    parts.push(`<line x1="${sx(0)}" y1="${top}" x2="${sx(0)}" y2="${bottom}"/>`);
+  }
+  parts.push(
+    '</g>',
+    `<rect x="${left}" y="${top}" width="${plotWidth}" height="${plotHeight}" fill="none" stroke="#333333"/>`,
+  );
+
+  // The curves
+  parts.push(
+    '<g clip-path="url(#plot-area)" fill="none" stroke-width="2" stroke-linejoin="round">',
+  );
+  series.forEach((s, i) => {
+    const d = pathData(s, low, high, sx, sy);
+    if (d !== '') {
+      parts.push(`<path d="${d}" stroke="${COLORS[i % COLORS.length]}"/>`);
+    }
+  });
+  parts.push('</g>');
+
+  // Legend in the top-left corner of the plot area
+  parts.push('<g font-size="12">');
+  series.forEach((s, i) => {
+    const y = top + 16 + i * 18;
+    const color = COLORS[i % COLORS.length];
+    parts.push(
+      `<line x1="${left + 10}" y1="${y - 4}" x2="${left + 30}" y2="${y - 4}" stroke="${color}" stroke-width="2"/>`,
+      `<text x="${left + 36}" y="${y}" fill="#222222">${escapeXml(s.expression)}</text>`,
+    );
+  });
+  parts.push('</g>', '</svg>');
+
+  return parts.join('\n');
+}
+
+/**
+ * Builds the `d` attribute of a series' path. The line is broken where the expression is
+ * undefined, and where it jumps from far above the chart to far below (or back), which is
+ * what happens across a vertical asymptote such as that of `tan(x)`.
+ */
+function pathData(
+  series: PlotSeries,
+  low: number,
+  high: number,
+  sx: (x: number) => number,
+  sy: (y: number) => number,
+): string {
+  const commands: string[] = [];
+  let previous: number | null = null;
+  for (const { x, y } of series.points) {
+    if (y === null) {
+      previous = null;
+      continue;
+    }
+    const jumps =
+      previous !== null && ((previous > high && y < low) || (previous < low && y > high));
+    commands.push(`${previous === null || jumps ? 'M' : 'L'}${sx(x)},${sy(y)}`);
+    previous = y;
+  }
+  return commands.join(' ');
+}
+
+/**
+ * Picks the y range of the chart. Without explicit bounds it spans all values, unless a few
+ * extreme values (near an asymptote) would flatten everything else; then it spans the 2nd
+ * to 98th percentile.
+ * @throws {PlotError} If the resulting range is empty.
+ */
+function yRange(
+  series: PlotSeries[],
+  yMin: number | undefined,
+  yMax: number | undefined,
+): [number, number] {
+  const values = series
+    .flatMap((s) => s.points.map((p) => p.y))
+    .filter((y): y is number => y !== null)
+    .sort((p, q) => p - q);
+
+  let low = -1;
+  let high = 1;
+  if (values.length > 0) {
+    const min = values[0] ?? 0;
+    const max = values[values.length - 1] ?? 0;
+    const p2 = values[Math.floor(0.02 * (values.length - 1))] ?? min;
+    const p98 = values[Math.ceil(0.98 * (values.length - 1))] ?? max;
+    [low, high] = p98 > p2 && max - min > 10 * (p98 - p2) ? [p2, p98] : [min, max];
+    if (low === high) {
+      const spread = Math.abs(low) * 0.1 || 1;
+      low -= spread;
+      high += spread;
+    }
+    const padding = (high - low) * 0.05;
+    low -= padding;
+    high += padding;
+  }
+
+  low = yMin ?? low;
+  high = yMax ?? high;
+  if (!(low < high)) {
+    throw new PlotError(`The y range is empty: ${low} to ${high}. Adjust yMin/yMax`, {
+      yMin: low,
+      yMax: high,
+    });
+  }
+  return [low, high];
+}
+
+/**
+ * Returns "nice" tick positions (multiples of 1, 2 or 5 times a power of ten) within a range.
+ */
+function niceTicks(low: number, high: number, target = 6): number[] {
+  const raw = (high - low) / target;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const normalized = raw / magnitude;
+  const step = (normalized < 1.5 ? 1 : normalized < 3 ? 2 : normalized < 7 ? 5 : 10) * magnitude;
+  const ticks: number[] = [];
+  for (let k = Math.ceil(low / step); k * step <= high; k++) {
+    // toPrecision strips floating point noise such as 0.30000000000000004
+    ticks.push(Number((k * step).toPrecision(12)));
+  }
+  return ticks;
+}
+
+function formatTick(value: number): string {
+  if (value === 0) {
+    return '0';
+  }
+  const magnitude = Math.abs(value);
+  return magnitude >= 1e5 || magnitude < 1e-3
+    ? value.toExponential(2).replace(/\.?0+e/, 'e')
+    : String(Number(value.toPrecision(6)));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
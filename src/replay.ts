@@ -0,0 +1,351 @@
+/**
+ * @file src/replay.ts
+ * @description Deterministic replay of an exported history for the `import_history` tool.
+ * Every calculation is re-run through the same operation logic as the tool that recorded
+ * it, and the result is compared with the exported one.
+ *
+ * WHY: Calculations are recorded as events precisely so that session state can be
+ * reconstructed. Replaying an export reproduces user-reported bugs (a result that differs
+ * is a regression) and moves a session to another environment with results computed there.
+ *
+ * A replay only uses what the export contains, never the state of the importing session:
+ * `evaluate_expression` records the values of the variables it used, and user functions
+ * record their definition. What an export does not record cannot be replayed, e.g. the
+ * session variables of an equation other than the unknown.
+ *
+ * Key Error Handling Ideas:
+ * - Nothing here throws for a single calculation: operations that fail or can't be replayed
+ *   are reported per calculation, so one bad row does not hide the rest of the report. This
+ *   includes errors that are not a `CalculatorServerError`, since an imported row can reach
+ *   limits the tools' own arguments never do.
+ */
+
+import {
+  HistoryImportError,
+  MAX_OPERAND_LENGTH,
+  DEFAULT_PRECISION,
+  quantitySchema,
+  precisionModeSchema,
+  precisionDigitsSchema,
+  calculateArgsSchema,
+  advancedCalculateArgsSchema,
+  matrixOperandsSchema,
+} from './types.js';
+import type { Calculation, PrecisionSettings, ReplayDifference } from './types.js';
+import { calculateBasic, calculateAdvanced, exactFields } from './arithmetic.js';
+import {
+  parseExpression,
+  evaluateExpression,
+  formatExpression,
+  collectVariables,
+  EXPRESSION_CONSTANTS,
+} from './expression.js';
+import { parseQuantity, formatUnit, combineQuantities, convertUnits } from './units.js';
+import { calculateMatrix } from './matrix.js';
+import {
+  parseEquation,
+  formatEquation,
+  solveEquation,
+  DEFAULT_TOLERANCE,
+  DEFAULT_MAX_ITERATIONS,
+} from './solver.js';
+import { getFormula, evaluateFormula } from './formulas.js';
+import { toExportRow } from './history.js';
+import type { HistoryExportRow } from './history.js';
+
+/** A replayed calculation, before it is given the ID, session and time of the original. */
+type ReplayedCalculation = Omit<Calculation, 'id' | 'sessionId' | 'timestamp'>;
+
+/**
+ * The outcome of replaying an exported history.
+ */
+export interface ReplayReport {
+  /**
+   * The replayed calculations with the ID and timestamp of the original, including those
+   * whose result differs. Calculations that failed or were skipped are left out.
+   */
+  calculations: Calculation[];
+  /** Every calculation that did not reproduce its exported result, in import order */
+  differences: ReplayDifference[];
+  matched: number;
+  mismatched: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Replays exported calculations, oldest first.
+ * @param sessionId The session the replayed calculations will belong to.
+ */
+export function replayHistory(rows: HistoryExportRow[], sessionId: string): ReplayReport {
+  const report: ReplayReport = {
+    calculations: [],
+    differences: [],
+    matched: 0,
+    mismatched: 0,
+    failed: 0,
+    skipped: 0,
+  };
+
+  rows.forEach((row, index) => {
+    const base = { index, id: row.id, operation: row.operation, expected: row.result };
+    let replayed: ReplayedCalculation | { skipped: string };
+    try {
+      replayed = replayCalculation(row);
+    } catch (error) {
+      report.failed++;
+      // McpError prefixes the message with the error code, which means nothing per row
+      const message =
+        error instanceof Error ? error.message.replace(/^MCP error -?\d+: /, '') : String(error);
+      report.differences.push({ ...base, status: 'error', message });
+      return;
+    }
+    if ('skipped' in replayed) {
+      report.skipped++;
+      report.differences.push({ ...base, status: 'skipped', message: replayed.skipped });
+      return;
+    }
+
+    const calculation: Calculation = {
+      id: row.id,
+      sessionId,
+      timestamp: Date.parse(row.timestamp),
+      ...replayed,
+    };
+    report.calculations.push(calculation);
+    const actual = toExportRow(calculation).result;
+    if (actual === row.result) {
+      report.matched++;
+    } else {
+      report.mismatched++;
+      report.differences.push({ ...base, status: 'mismatch', actual });
+    }
+  });
+  return report;
+}
+
+/**
+ * Re-runs one exported calculation.
+ * @returns The replayed calculation, or why the calculation cannot be replayed.
+ * @throws {CalculatorServerError} If the operation fails or the row's inputs don't fit it.
+ */
+function replayCalculation(row: HistoryExportRow): ReplayedCalculation | { skipped: string } {
+  const { operation } = row;
+  const basic = calculateArgsSchema.shape.op.safeParse(operation);
+  if (basic.success) {
+    const [a = '', b = ''] = scalarInputs(row, 2);
+    if ([a, b].some((input) => quantitySchema.safeParse(input).success)) {
+      const quantities = [parseQuantity(a), parseQuantity(b)] as const;
+      const quantity = combineQuantities(basic.data, quantities[0], quantities[1]);
+      return {
+        operation,
+        inputs: quantities.map((q) => q.value),
+        result: quantity.value,
+        inputUnits: quantities.map((q) => formatUnit(q.unit)),
+        unit: formatUnit(quantity.unit),
+      };
+    }
+    const precision = precisionOf(row);
+    const outcome = calculateBasic(basic.data, a, b, precision);
+    return {
+      operation,
+      inputs: [Number(a), Number(b)],
+      result: outcome.value,
+      ...exactFields(precision, [a, b], outcome.exact),
+    };
+  }
+
+  const advanced = advancedCalculateArgsSchema.shape.operation.safeParse(operation);
+  if (advanced.success) {
+    const inputs = scalarInputs(row);
+    const [value, base] = inputs;
+    if (value === undefined || inputs.length > 2) {
+      throw new HistoryImportError(`Expected 1 or 2 inputs, got ${inputs.length}`);
+    }
+    const precision = precisionOf(row);
+    const outcome = calculateAdvanced(advanced.data, value, base, precision);
+    return {
+      operation,
+      inputs: inputs.map(Number),
+      result: outcome.value,
+      ...exactFields(precision, inputs, outcome.exact),
+    };
+  }
+
+  if (operation === 'expression') {
+    const ast = parseExpression(row.expression);
+    const values = scalarInputs(row).map(Number);
+    // The recorded inputs are the values of the expression's variables, in order of first use
+    const names = collectVariables(ast).filter((name) => !EXPRESSION_CONSTANTS.includes(name));
+    if (names.length !== values.length) {
+      throw new HistoryImportError(
+        `Expected ${names.length} input(s) for the variables of '${row.expression}', got ${values.length}`,
+      );
+    }
+    const scope = Object.fromEntries(names.map((name, i) => [name, values[i] ?? 0]));
+    return {
+      operation,
+      inputs: values,
+      result: evaluateExpression(ast, scope),
+      expression: formatExpression(ast),
+    };
+  }
+
+  if (operation === 'convert') {
+    const [input = ''] = scalarInputs(row, 1);
+    const source = parseQuantity(input);
+    const target = parseQuantity(row.result).unit;
+    const converted = convertUnits(source.value, formatUnit(source.unit), formatUnit(target));
+    return {
+      operation,
+      inputs: [source.value],
+      result: converted.value,
+      inputUnits: [formatUnit(source.unit)],
+      unit: formatUnit(converted.unit),
+    };
+  }
+
+  if (operation === 'solve') {
+    const equation = parseEquation(row.expression);
+    const names = [
+      ...new Set([...collectVariables(equation.lhs), ...collectVariables(equation.rhs)]),
+    ].filter((name) => !EXPRESSION_CONSTANTS.includes(name));
+    if (names.length > 1) {
+      return {
+        skipped: `The equation uses ${names.join(', ')}; the export does not record which one was solved for or the values of the others`,
+      };
+    }
+    const outcome = solveEquation(
+      equation,
+      names[0] ?? 'x',
+      {},
+      {
+        method: 'auto',
+        tolerance: DEFAULT_TOLERANCE,
+        maxIterations: DEFAULT_MAX_ITERATIONS,
+      },
+    );
+    const realRoots = outcome.roots.filter((r) => r.imaginary === 0).map((r) => r.real);
+    return {
+      operation,
+      inputs: [],
+      result: realRoots[0] ?? null,
+      expression: formatEquation(equation),
+      solution: { status: outcome.status, roots: outcome.roots },
+    };
+  }
+
+  if (operation.startsWith('matrix_')) {
+    const [a, b] = structuredInputs(row);
+    const checked = matrixOperandsSchema.safeParse({
+      operation: operation.slice('matrix_'.length),
+      a,
+      b,
+    });
+    if (!checked.success) {
+      throw new HistoryImportError(
+        `Invalid matrix inputs: ${checked.error.issues[0]?.message ?? 'unknown problem'}`,
+      );
+    }
+    const args = checked.data;
+    const outcome = calculateMatrix(args.operation, args.a, args.b);
+    const structuredResult =
+      'matrix' in outcome ? outcome.matrix : 'vector' in outcome ? outcome.vector : undefined;
+    return {
+      operation,
+      inputs: [],
+      result: 'scalar' in outcome ? outcome.scalar : null,
+      structuredInputs: args.b === undefined ? [args.a] : [args.a, args.b],
+      ...(structuredResult ? { structuredResult } : {}),
+    };
+  }
+
+  if (operation.startsWith('formula:')) {
+    const definition = getFormula(operation.slice('formula:'.length));
+    const names = Object.keys(definition.variables);
+    const values = scalarInputs(row, names.length).map(Number);
+    const results = evaluateFormula(
+      definition,
+      Object.fromEntries(names.map((name, i) => [name, values[i] ?? 0])),
+    );
+    return {
+      operation,
+      inputs: values,
+      result: results.length === 1 ? (results[0]?.value ?? null) : null,
+      expression: definition.results
+        .map((result) => `${result.name} = ${result.expression}`)
+        .join('; '),
+      ...(results.length > 1 ? { structuredResult: results.map((r) => r.value) } : {}),
+    };
+  }
+
+  if (operation.startsWith('function:')) {
+    // User functions record their definition as `name(p1, p2) = body`
+    const match = /^(\w+)\(([^)]*)\) = (.+)$/s.exec(row.expression);
+    if (!match || `function:${match[1]}` !== operation) {
+      throw new HistoryImportError(
+        `Expected the definition of ${operation.slice('function:'.length)} as expression, got '${row.expression}'`,
+      );
+    }
+    const params = match[2] === '' ? [] : (match[2] ?? '').split(', ');
+    const values = scalarInputs(row, params.length).map(Number);
+    const body = parseExpression(match[3] ?? '');
+    return {
+      operation,
+      inputs: values,
+      result: evaluateExpression(
+        body,
+        Object.fromEntries(params.map((param, i) => [param, values[i] ?? 0])),
+      ),
+      expression: row.expression,
+    };
+  }
+
+  return { skipped: `Calculations of type '${operation}' cannot be replayed` };
+}
+
+/**
+ * Splits the `inputs` column of a row with scalar inputs, e.g. `1, 2` or `3 m, 2 s`.
+ * @param count The number of inputs the operation takes, if fixed.
+ * @throws {HistoryImportError} If the row has a different number of inputs, or an input is
+ * longer than the tools accept.
+ */
+function scalarInputs(row: HistoryExportRow, count?: number): string[] {
+  const inputs = row.inputs === '' ? [] : row.inputs.split(', ');
+  if (count !== undefined && inputs.length !== count) {
+    throw new HistoryImportError(`Expected ${count} input(s), got ${inputs.length}`);
+  }
+  if (inputs.some((input) => input.length > MAX_OPERAND_LENGTH)) {
+    throw new HistoryImportError(`Inputs are limited to ${MAX_OPERAND_LENGTH} characters each`);
+  }
+  return inputs;
+}
+
+/**
+ * Parses the `inputs` column of a matrix calculation, e.g. `[[1,2],[3,4]], [5,6]`.
+ * @throws {HistoryImportError} If the column is not a list of JSON values.
+ */
+function structuredInputs(row: HistoryExportRow): unknown[] {
+  try {
+    return JSON.parse(`[${row.inputs}]`) as unknown[];
+  } catch {
+    throw new HistoryImportError(`Expected matrices or vectors as inputs, got '${row.inputs}'`);
+  }
+}
+
+/**
+ * Reads the precision a row was calculated in. Exports from before `digits` was recorded
+ * fall back to the default number of digits. The digits are limited like those of the tools,
+ * or a single row could keep the server busy for minutes.
+ * @throws {HistoryImportError} If the precision mode or digits are invalid.
+ */
+function precisionOf(row: HistoryExportRow): PrecisionSettings {
+  const mode = precisionModeSchema.safeParse(row.precision);
+  const digits = precisionDigitsSchema.safeParse(
+    row.digits === '' ? DEFAULT_PRECISION.digits : Number(row.digits),
+  );
+  if (!mode.success || !digits.success) {
+    throw new HistoryImportError(`Invalid precision '${row.precision}' (${row.digits} digits)`);
+  }
+  return { mode: mode.data, digits: digits.data };
+}
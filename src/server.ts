@@ -27,27 +27,82 @@ import rateLimit from 'express-rate-limit';
 import { createServer } from 'http';
 import type { Server } from 'http';
 import { randomUUID } from 'crypto';
+import { mkdir, appendFile, readFile, rm } from 'fs/promises';
+import { join } from 'path';
 import IORedis from 'ioredis';
 import type { Redis, RedisOptions } from 'ioredis';
 import { register as prometheusRegister, Counter, Gauge } from 'prom-client';
 
 // MCP SDK imports
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { isInitializeRequest, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import {
+  isInitializeRequest,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  isJSONRPCError,
+  ElicitResultSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  McpError,
+  ErrorCode,
+} from '@modelcontextprotocol/sdk/types.js';
 import type {
   CallToolResult,
   GetPromptResult,
   ReadResourceResult,
+  CreateMessageResult,
+  ElicitRequest,
+  ElicitResult,
+  RequestId,
   JSONRPCMessage,
 } from '@modelcontextprotocol/sdk/types.js';
 import type { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
 
 // Import all types and schemas from our data contract layer
 import {
   calculateArgsSchema,
   batchCalculateArgsSchema,
   advancedCalculateArgsSchema,
+  evaluateExpressionArgsSchema,
+  setVariableArgsSchema,
+  clearVariablesArgsSchema,
+  memoryArgsSchema,
+  setPrecisionArgsSchema,
+  setLocaleArgsSchema,
+  convertUnitsArgsSchema,
+  statisticsArgsSchema,
+  matrixCalculateArgsSchema,
+  matrixOperandsSchema,
+  solveEquationArgsSchema,
+  evaluateFormulaArgsSchema,
+  defineFunctionArgsSchema,
+  operandSchema,
+  removeFunctionArgsSchema,
+  plotFunctionArgsSchema,
+  exportHistoryArgsSchema,
+  importHistoryArgsSchema,
+  importHistoryResultSchema,
+  solveWordProblemArgsSchema,
+  solveWordProblemResultSchema,
+  MAX_SESSION_PLOTS,
+  MAX_SUBSCRIPTIONS,
+  EXPLANATION_LEVELS,
+  PROBLEM_DIFFICULTIES,
+  PROBLEM_TOPICS,
+  MAX_USER_FUNCTIONS,
+  solveEquationResultSchema,
+  calculateResultSchema,
+  batchCalculateResultSchema,
+  advancedCalculateResultSchema,
+  demoProgressResultSchema,
+  quantitySchema,
+  historyStepArgsSchema,
+  deleteCalculationArgsSchema,
   demoProgressArgsSchema,
   sampleToolArgsSchema,
   explainCalculationArgsSchema,
@@ -57,17 +112,127 @@ import {
   CalculatorServerError,
   SessionNotFoundError,
   StorageOperationFailedError,
+  VariableNotFoundError,
+  ArithmeticError,
+  OperationCancelledError,
+  MatrixDimensionError,
+  FunctionDefinitionError,
+  LocaleError,
+  WordProblemError,
+  ElicitationError,
   calculatorAssistantArgsSchema,
+  sessionPromptArgsSchema,
+  variableNameSchema,
+  ANSWER_VARIABLE,
+  DEFAULT_PRECISION,
+  ELICITATION_TIMEOUT_MS,
+  ELICITATION_POLL_INTERVAL_MS,
 } from './types.js';
+import {
+  parseExpression,
+  evaluateExpression,
+  formatExpression,
+  collectVariables,
+  collectFunctions,
+  EXPRESSION_FUNCTIONS,
+  EXPRESSION_CONSTANTS,
+} from './expression.js';
+import {
+  calculateBasic,
+  calculateAdvanced,
+  toExactString,
+  describePrecision,
+  isExactMode,
+  formatResult,
+  formatInputs,
+  formatSolution,
+  formatComplex,
+  exactFields,
+} from './arithmetic.js';
+import {
+  parseUnit,
+  parseQuantity,
+  formatQuantity,
+  formatUnit,
+  convertUnits,
+  combineQuantities,
+  UNIT_SYMBOLS,
+} from './units.js';
+import type { Quantity } from './units.js';
+import { summarize, historyValues, formatSummary } from './statistics.js';
+import { calculateMatrix, formatMatrix } from './matrix.js';
+import { planBatch, parseReference } from './batch.js';
+import { DEFAULT_SAMPLES, DEFAULT_WIDTH, DEFAULT_HEIGHT, samplePlot, renderPlot } from './plot.js';
+import {
+  parseHistoryQuery,
+  pageHistory,
+  historyPageUri,
+  parseExportQuery,
+  exportHistory,
+  parseHistoryExport,
+  recentCalculations,
+  EXPORT_MIME_TYPES,
+} from './history.js';
+import { replayHistory } from './replay.js';
+import { SAMPLING_TIMEOUT_MS, wordProblemRequest, parsePlan, solvePlan } from './wordproblem.js';
+import {
+  parseEquation,
+  formatEquation,
+  solveEquation,
+  DEFAULT_TOLERANCE,
+  DEFAULT_MAX_ITERATIONS,
+} from './solver.js';
+import { FORMULA_NAMES, getFormula, describeFormula, evaluateFormula } from './formulas.js';
+import {
+  DEFAULT_LOCALE,
+  matchLocale,
+  negotiateLocale,
+  formatNumber,
+  formatList,
+  localeContext,
+} from './locale.js';
+import type { Locale } from './locale.js';
+import { PROMPT_MESSAGES, QUESTION_MESSAGES } from './messages.js';
+import type { QuestionText } from './messages.js';
 import type {
   ISessionStore,
+  IHistoryArchive,
   SessionData,
   Calculation,
   TransportWithSessionId,
   ServerConfig,
   CalculateArgs,
   BatchCalculateArgs,
+  BatchCalculateResult,
+  BatchItemError,
+  SolveWordProblemArgs,
+  SolveWordProblemResult,
+  PlotFunctionArgs,
+  Plot,
   AdvancedCalculateArgs,
+  EvaluateExpressionArgs,
+  SetVariableArgs,
+  ClearVariablesArgs,
+  MemoryArgs,
+  Operand,
+  SetPrecisionArgs,
+  SetLocaleArgs,
+  ConvertUnitsArgs,
+  StatisticsArgs,
+  MatrixCalculateArgs,
+  SolveEquationArgs,
+  EvaluateFormulaArgs,
+  DefineFunctionArgs,
+  RemoveFunctionArgs,
+  UserFunction,
+  PendingElicitation,
+  PrecisionMode,
+  PrecisionSettings,
+  HistoryStepArgs,
+  DeleteCalculationArgs,
+  ExportHistoryArgs,
+  ImportHistoryArgs,
+  ImportHistoryResult,
   DemoProgressArgs,
   SampleToolArgs,
   ExplainCalculationArgs,
@@ -75,12 +240,23 @@ import type {
   SolveMathProblemArgs,
   ExplainFormulaArgs,
   CalculatorAssistantArgs,
+  SessionPromptArgs,
 } from './types.js';
 
 // =================================================================
 // SECTION 1: GLOBAL STATE AND CONFIGURATION
 // =================================================================
 
+/**
+ * Reads a count from an environment variable, falling back to `fallback` unless it holds a
+ * positive integer. WHY: `parseInt` of a typo is `NaN`, which compares false with everything
+ * and would silently disable a limit.
+ */
+function positiveInteger(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? '');
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
 /**
  * Application configuration derived from environment variables.
  * This centralizes all configuration in a single, type-safe object.
@@ -100,6 +276,13 @@ const config: ServerConfig = {
     windowMs: parseInt(process.env['RATE_LIMIT_WINDOW'] || '900000'), // 15 minutes
     max: parseInt(process.env['RATE_LIMIT_MAX'] || '1000'),
   },
+  historySize: positiveInteger(process.env['HISTORY_SIZE'], 50),
+  historyArchive:
+    process.env['HISTORY_ARCHIVE'] === 'redis' || process.env['HISTORY_ARCHIVE'] === 'file'
+      ? process.env['HISTORY_ARCHIVE']
+      : 'none',
+  historyArchiveDir: process.env['HISTORY_ARCHIVE_DIR'] || './data/history-archive',
+  historyArchiveTtl: parseInt(process.env['HISTORY_ARCHIVE_TTL'] || '604800000'), // 7 days
 };
 
 /**
@@ -125,6 +308,13 @@ let sessionStore: ISessionStore;
  */
 let eventStore: EventStore;
 
+/**
+ * Global archive for calculations evicted from session histories.
+ * WHY: `null` when archiving is disabled, so evicted calculations are simply dropped,
+ * exactly as before the archive tier existed.
+ */
+let historyArchive: IHistoryArchive | null = null;
+
 /**
  * Prometheus metrics for observability.
  * WHY: These counters and gauges provide crucial insights into system behavior:
@@ -204,7 +394,12 @@ class InMemorySessionStore implements ISessionStore {
       return null;
     }
 
-    return session || null;
+    /**
+     * Callers get a copy, just as from Redis. Handing out the stored object would let a tool
+     * change the session before `saveSession` decides whether to persist the change at all,
+     * so a cancelled call would still leave its partial changes behind.
+     */
+    return session ? structuredClone(session) : null;
   }
 
   async set(sessionId: string, data: SessionData): Promise<void> {
@@ -223,6 +418,15 @@ class InMemorySessionStore implements ISessionStore {
       lastActivity: data.lastActivity,
       requestCount: data.requestCount,
       calculations: data.calculations,
+      redoStack: data.redoStack,
+      variables: data.variables,
+      memory: data.memory,
+      precision: data.precision,
+      functions: data.functions,
+      plots: data.plots,
+      subscriptions: data.subscriptions,
+      locale: data.locale,
+      pendingElicitation: data.pendingElicitation,
     };
     this.sessions.set(sessionId, storable as SessionData);
   }
@@ -231,26 +435,31 @@ class InMemorySessionStore implements ISessionStore {
     this.sessions.delete(sessionId);
   }
 
-  async updateActivity(sessionId: string): Promise<void> {
+  async updateActivity(sessionId: string): Promise<SessionData | null> {
     const session = this.sessions.get(sessionId);
     if (session) {
       session.lastActivity = Date.now();
       session.requestCount++;
     }
+    return session ? structuredClone(session) : null;
   }
 
   /**
    * Manual cleanup method for in-memory store.
    * WHY: Redis handles expiration automatically, but in-memory storage
    * requires manual cleanup to prevent unbounded memory growth.
+   * @returns The IDs of the expired sessions, whose other resources must go too.
    */
-  cleanup(): void {
+  cleanup(): string[] {
     const now = Date.now();
+    const expired: string[] = [];
     for (const [sessionId, session] of this.sessions) {
       if (now - session.lastActivity > this.sessionTimeout) {
         this.sessions.delete(sessionId);
+        expired.push(sessionId);
       }
     }
+    return expired;
   }
 }
 
@@ -406,6 +615,18 @@ class RedisSessionStore implements ISessionStore {
        */
       parsed.transport = null;
       parsed.server = null;
+
+      // Sessions persisted by older versions predate variables, memory, redo, precision,
+      // user-defined functions, plots, subscriptions, locales and elicitations
+      parsed.variables ??= {};
+      parsed.memory ??= 0;
+      parsed.redoStack ??= [];
+      parsed.precision ??= { ...DEFAULT_PRECISION };
+      parsed.functions ??= {};
+      parsed.plots ??= {};
+      parsed.subscriptions ??= [];
+      parsed.locale ??= DEFAULT_LOCALE;
+      parsed.pendingElicitation ??= null;
       return parsed;
     } catch (error) {
       // NOTE: On a read failure, we adopt a fail-safe philosophy. We log the
@@ -429,6 +650,15 @@ class RedisSessionStore implements ISessionStore {
         lastActivity: data.lastActivity,
         requestCount: data.requestCount,
         calculations: data.calculations,
+        redoStack: data.redoStack,
+        variables: data.variables,
+        memory: data.memory,
+        precision: data.precision,
+        functions: data.functions,
+        plots: data.plots,
+        subscriptions: data.subscriptions,
+        locale: data.locale,
+        pendingElicitation: data.pendingElicitation,
       };
 
       /**
@@ -468,7 +698,7 @@ class RedisSessionStore implements ISessionStore {
     }
   }
 
-  async updateActivity(sessionId: string): Promise<void> {
+  async updateActivity(sessionId: string): Promise<SessionData | null> {
     try {
       const session = await this.get(sessionId);
       if (session) {
@@ -476,8 +706,10 @@ class RedisSessionStore implements ISessionStore {
         session.requestCount++;
         await this.set(sessionId, session);
       }
+      return session;
     } catch (error) {
       console.error(`Redis error updating activity for session ${sessionId}:`, error);
+      return null;
     }
   }
 }
@@ -577,6 +809,130 @@ class RedisEventStore implements EventStore {
   }
 }
 
+/**
+ * Redis-backed history archive: one hash per session, keyed by calculation ID.
+ *
+ * WHY: A hash gives O(1) lookups for `calculator://history/{calculationId}` while keeping
+ * evicted calculations out of the session document, which is read on every request.
+ */
+class RedisHistoryArchive implements IHistoryArchive {
+  constructor(
+    private readonly redis: Redis,
+    private readonly ttlMs: number,
+  ) {}
+
+  async archive(sessionId: string, calculations: Calculation[]): Promise<void> {
+    if (calculations.length === 0) {
+      return;
+    }
+    const key = `mcp_archive:${sessionId}`;
+    try {
+      await this.redis.hset(
+        key,
+        Object.fromEntries(calculations.map((c) => [c.id, JSON.stringify(c)])),
+      );
+      await this.redis.pexpire(key, this.ttlMs);
+    } catch (error) {
+      console.error(`Redis error archiving history of session ${sessionId}:`, error);
+    }
+  }
+
+  async get(sessionId: string, calculationId: string): Promise<Calculation | null> {
+    try {
+      const data = await this.redis.hget(`mcp_archive:${sessionId}`, calculationId);
+      return data ? (JSON.parse(data) as Calculation) : null;
+    } catch (error) {
+      console.error(`Redis error reading history archive of session ${sessionId}:`, error);
+      return null;
+    }
+  }
+
+  async list(sessionId: string): Promise<Calculation[]> {
+    try {
+      const values = await this.redis.hvals(`mcp_archive:${sessionId}`);
+      return values
+        .map((data) => JSON.parse(data) as Calculation)
+        .sort((a, b) => a.timestamp - b.timestamp);
+    } catch (error) {
+      console.error(`Redis error listing history archive of session ${sessionId}:`, error);
+      return [];
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    try {
+      await this.redis.del(`mcp_archive:${sessionId}`);
+    } catch (error) {
+      console.error(`Redis error deleting history archive of session ${sessionId}:`, error);
+    }
+  }
+}
+
+/**
+ * File-backed history archive: one append-only NDJSON file per session.
+ *
+ * WHY: Local disk is the cheapest store available to a single-node deployment, and
+ * appending a line per evicted calculation never rewrites existing data.
+ */
+class FileHistoryArchive implements IHistoryArchive {
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Session IDs end up in file names, so anything but UUID-like characters is rejected
+   * to rule out path traversal.
+   */
+  private fileFor(sessionId: string): string | null {
+    return /^[A-Za-z0-9-]+$/.test(sessionId) ? join(this.directory, `${sessionId}.ndjson`) : null;
+  }
+
+  async archive(sessionId: string, calculations: Calculation[]): Promise<void> {
+    const file = this.fileFor(sessionId);
+    if (!file || calculations.length === 0) {
+      return;
+    }
+    try {
+      await mkdir(this.directory, { recursive: true });
+      await appendFile(file, calculations.map((c) => `${JSON.stringify(c)}\n`).join(''));
+    } catch (error) {
+      console.error(`Error archiving history of session ${sessionId}:`, error);
+    }
+  }
+
+  async get(sessionId: string, calculationId: string): Promise<Calculation | null> {
+    const calculations = await this.list(sessionId);
+    return calculations.find((c) => c.id === calculationId) ?? null;
+  }
+
+  async list(sessionId: string): Promise<Calculation[]> {
+    const file = this.fileFor(sessionId);
+    if (!file) {
+      return [];
+    }
+    try {
+      const content = await readFile(file, 'utf8');
+      return content
+        .split('\n')
+        .filter((line) => line.trim() !== '')
+        .map((line) => JSON.parse(line) as Calculation);
+    } catch (error) {
+      // A missing file just means nothing has been archived yet
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Error reading history archive of session ${sessionId}:`, error);
+      }
+      return [];
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const file = this.fileFor(sessionId);
+    if (file) {
+      await rm(file, { force: true }).catch((error: unknown) => {
+        console.error(`Error deleting history archive of session ${sessionId}:`, error);
+      });
+    }
+  }
+}
+
 // =================================================================
 // SECTION 3: CORE FACTORIES
 // =================================================================
@@ -596,6 +952,7 @@ class RedisEventStore implements EventStore {
 async function initializeStores(): Promise<{
   sessionStore: ISessionStore;
   eventStore: EventStore;
+  historyArchive: IHistoryArchive | null;
 }> {
   if (config.useRedis) {
     console.warn('✅ Using Redis for distributed state management.');
@@ -655,16 +1012,72 @@ async function initializeStores(): Promise<{
     return {
       sessionStore: new RedisSessionStore(redisClient, config.sessionTimeout),
       eventStore: new RedisEventStore(redisClient),
+      historyArchive: createHistoryArchive(redisClient),
     };
   } else {
     console.warn('✅ Using In-Memory for single-node state management.');
     return {
       sessionStore: new InMemorySessionStore(config.sessionTimeout),
       eventStore: new InMemoryEventStore(),
+      historyArchive: createHistoryArchive(null),
     };
   }
 }
 
+/**
+ * Creates the archive tier selected by `HISTORY_ARCHIVE`.
+ * WHY: The Redis archive needs the shared Redis connection; without one, archiving is
+ * disabled with a warning rather than failing startup.
+ * @param redis The Redis client, or `null` when the server runs in in-memory mode.
+ */
+function createHistoryArchive(redis: Redis | null): IHistoryArchive | null {
+  switch (config.historyArchive) {
+    case 'redis':
+      if (!redis) {
+        console.warn('⚠️ HISTORY_ARCHIVE=redis requires USE_REDIS=true; archiving is disabled.');
+        return null;
+      }
+      console.warn('✅ Archiving evicted history entries in Redis.');
+      return new RedisHistoryArchive(redis, config.historyArchiveTtl);
+    case 'file':
+      console.warn(`✅ Archiving evicted history entries in ${config.historyArchiveDir}.`);
+      return new FileHistoryArchive(config.historyArchiveDir);
+    case 'none':
+      return null;
+  }
+}
+
+/**
+ * A URI template of the form `base{?a,b,...}` whose query parameters are all optional and may
+ * come in any order.
+ * WHY: The SDK's `UriTemplate.match` only matches a `{?...}` template when every parameter is
+ * present, in the declared order, so `calculator://history?operation=add` would not resolve.
+ * Parameters that are not declared still make the URI unmatched.
+ */
+class QueryUriTemplate extends UriTemplate {
+  constructor(
+    private readonly base: string,
+    private readonly params: string[],
+  ) {
+    super(`${base}{?${params.join(',')}}`);
+  }
+
+  override match(uri: string): Variables | null {
+    const [path, query = ''] = uri.split(/\?(.*)/s, 2);
+    if (path !== this.base) {
+      return null;
+    }
+    const variables: Variables = {};
+    for (const [key, value] of new URLSearchParams(query)) {
+      if (!this.params.includes(key)) {
+        return null;
+      }
+      variables[key] = value;
+    }
+    return variables;
+  }
+}
+
 /**
  * Factory function that creates and configures an MCP server instance.
  * This function contains all the tool, resource, and prompt registrations.
@@ -712,9 +1125,462 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
     if (!sessionData) {
       throw new SessionNotFoundError('Session could not be found or has expired.', { sessionId });
     }
+    // Another node may have defined or removed functions since this instance last looked
+    syncFunctionTools(sessionData);
     return sessionData;
   };
 
+  /**
+   * @summary Resolves a tool operand to its exact decimal string.
+   * @remarks Operands are literal numbers, numeric strings, or names of session variables.
+   * Resolving them in one place keeps every tool consistent about how variables are looked
+   * up. `ans` prefers the exact result of the latest calculation, so exact precision modes
+   * can chain results without rounding them to a double in between.
+   * @throws {VariableNotFoundError} If the operand names a variable that is not defined.
+   */
+  const resolveExactOperand = (sessionData: SessionData, operand: Operand): string => {
+    if (typeof operand === 'number') {
+      return toExactString(operand);
+    }
+    if (!variableNameSchema.safeParse(operand).success) {
+      // Numeric literal passed as a string
+      return operand;
+    }
+    if (operand === ANSWER_VARIABLE) {
+      const latestExact = sessionData.calculations.at(-1)?.exactResult;
+      if (latestExact !== undefined) {
+        return latestExact;
+      }
+    }
+    const value = Object.hasOwn(sessionData.variables, operand)
+      ? sessionData.variables[operand]
+      : undefined;
+    if (value === undefined) {
+      throw new VariableNotFoundError(operand);
+    }
+    return toExactString(value);
+  };
+
+  /**
+   * @summary Resolves a tool operand to a concrete number.
+   * @throws {VariableNotFoundError} If the operand names a variable that is not defined.
+   * @throws {ArithmeticError} If the value is too large to be represented as a double.
+   */
+  const resolveOperand = (sessionData: SessionData, operand: Operand): number => {
+    const value = Number(resolveExactOperand(sessionData, operand));
+    if (!Number.isFinite(value)) {
+      throw new ArithmeticError(
+        'Operand is too large for floating point; use decimal or bigint precision',
+      );
+    }
+    return value;
+  };
+
+  /**
+   * @summary Whether an operand is a quantity with a unit (e.g. `"5 km"`).
+   */
+  const isQuantityOperand = (operand: Operand | string): operand is string =>
+    typeof operand === 'string' && quantitySchema.safeParse(operand).success;
+
+  /**
+   * @summary Resolves an operand of `calculate` to a quantity.
+   * @remarks Strings like `"5 km"` are parsed as quantities; numbers, numeric strings and
+   * variables become dimensionless quantities, so `2 * "3 m"` works as expected.
+   * @throws {UnitError} If the quantity names an unknown unit.
+   * @throws {VariableNotFoundError} If the operand names a variable that is not defined.
+   */
+  const resolveQuantity = (sessionData: SessionData, operand: Operand | string): Quantity =>
+    isQuantityOperand(operand)
+      ? parseQuantity(operand)
+      : { value: resolveOperand(sessionData, operand as Operand), unit: [] };
+
+  /**
+   * @summary Determines the precision for a call: per-call arguments override the session default.
+   */
+  const resolvePrecision = (
+    sessionData: SessionData,
+    mode: PrecisionMode | undefined,
+    digits: number | undefined,
+  ): PrecisionSettings => ({
+    mode: mode ?? sessionData.precision.mode,
+    digits: digits ?? sessionData.precision.digits,
+  });
+
+  /**
+   * @summary Throws if the client has cancelled the current request.
+   * @remarks The SDK aborts a handler's `signal` when the client sends `notifications/cancelled`,
+   * and the HTTP layer does the same when the client disconnects mid-request.
+   * @throws {OperationCancelledError} If `signal` has been aborted.
+   */
+  const throwIfCancelled = (signal: AbortSignal): void => {
+    if (signal.aborted) {
+      throw new OperationCancelledError(signal.reason);
+    }
+  };
+
+  /**
+   * @summary Waits for `ms` milliseconds, or until the request is cancelled.
+   * @throws {OperationCancelledError} If `signal` is aborted before or while waiting.
+   */
+  const delay = (ms: number, signal: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        reject(new OperationCancelledError(signal.reason));
+        return;
+      }
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        reject(new OperationCancelledError(signal.reason));
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+  /**
+   * @summary Asks the user a question through the client (`elicitation/create`) and waits for
+   * the answer.
+   * @remarks The request goes out on the SSE stream of the tool call that asks, so it reaches
+   * the client even if the session's GET stream is held by another node. The client's answer
+   * is a separate POST that may arrive at any node, so it is not matched up by the SDK (which
+   * only knows the requests of its own instance): the question is stored as the session's
+   * `pendingElicitation`, the node that receives the answer stores it there (see
+   * `takeElicitationAnswer`), and this helper polls the session store until it appears.
+   * @returns The answer; `cancel` if none arrived in time. `undefined` if the client does not
+   * support elicitation, in which case the caller behaves as it did before asking.
+   * @throws {ElicitationError} If another question of the session is still waiting.
+   * @throws {OperationCancelledError} If the tool call is cancelled while waiting.
+   */
+  const elicit = async (
+    params: ElicitRequest['params'],
+    { requestId, signal }: { requestId: RequestId; signal: AbortSignal },
+  ): Promise<ElicitResult | undefined> => {
+    if (!server.server.getClientCapabilities()?.elicitation) {
+      return undefined;
+    }
+    const sessionData = await getSessionData();
+    // An expired question belongs to a call that is gone (e.g. its node crashed)
+    if (sessionData.pendingElicitation && sessionData.pendingElicitation.expiresAt > Date.now()) {
+      throw new ElicitationError(
+        'Another question is still waiting for an answer; answer it and try again',
+      );
+    }
+    const pending: PendingElicitation = {
+      requestId: `elicitation-${randomUUID()}`,
+      expiresAt: Date.now() + ELICITATION_TIMEOUT_MS,
+    };
+    sessionData.pendingElicitation = pending;
+    await sessionStore.set(sessionId, sessionData);
+
+    try {
+      await server.server.transport?.send(
+        { jsonrpc: '2.0', id: pending.requestId, method: 'elicitation/create', params },
+        { relatedRequestId: requestId },
+      );
+      while (Date.now() < pending.expiresAt) {
+        await delay(ELICITATION_POLL_INTERVAL_MS, signal);
+        const current = (await sessionStore.get(sessionId))?.pendingElicitation;
+        if (current?.requestId !== pending.requestId) {
+          return { action: 'cancel' }; // The session expired or the question was replaced
+        }
+        if (current.answer) {
+          return current.answer;
+        }
+      }
+      return { action: 'cancel' };
+    } catch (error) {
+      if (signal.aborted) {
+        // Close the question on the client too, as the SDK does for its own requests
+        try {
+          await server.server.notification({
+            method: 'notifications/cancelled',
+            params: { requestId: pending.requestId, reason: 'The tool call was cancelled' },
+          });
+        } catch {
+          // A client that has disconnected can't be told; the cancellation is what matters
+        }
+      }
+      throw error;
+    } finally {
+      const latest = await sessionStore.get(sessionId);
+      if (latest?.pendingElicitation?.requestId === pending.requestId) {
+        latest.pendingElicitation = null;
+        await sessionStore.set(sessionId, latest);
+      }
+    }
+  };
+
+  /**
+   * @summary Asks the user for a number, e.g. a missing tool argument.
+   * @returns The number, or `undefined` if the client can't ask or the user gave none.
+   */
+  const askForNumber = async (
+    question: QuestionText,
+    extra: { requestId: RequestId; signal: AbortSignal },
+  ): Promise<number | undefined> => {
+    const answer = await elicit(
+      {
+        message: question.message,
+        requestedSchema: {
+          type: 'object',
+          properties: { value: { type: 'number', title: question.label } },
+          required: ['value'],
+        },
+      },
+      extra,
+    );
+    const value = answer?.action === 'accept' ? answer.content?.['value'] : undefined;
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+  };
+
+  /**
+   * @summary Asks the user to confirm a destructive action.
+   * @returns Whether to go ahead: `true` if the user confirmed, and also if the client can't
+   * ask, so that such clients keep working as before.
+   */
+  const confirmAction = async (
+    question: QuestionText,
+    extra: { requestId: RequestId; signal: AbortSignal },
+  ): Promise<boolean> => {
+    const answer = await elicit(
+      {
+        message: question.message,
+        requestedSchema: {
+          type: 'object',
+          properties: { confirm: { type: 'boolean', title: question.label, default: false } },
+          required: ['confirm'],
+        },
+      },
+      extra,
+    );
+    return (
+      answer === undefined || (answer.action === 'accept' && answer.content?.['confirm'] === true)
+    );
+  };
+
+  /**
+   * Resources changed on a session's data that subscribers have not been told about yet.
+   * WHY: Notifying only after `saveSession` means a cancelled or failed call, which saves
+   * nothing, never announces a change that didn't happen.
+   */
+  const pendingUpdates = new WeakMap<SessionData, Set<string>>();
+
+  /**
+   * Calculations evicted from a session's history that have not been archived yet.
+   * WHY: Archiving only after `saveSession` means a cancelled or failed call, whose eviction
+   * is never saved, archives nothing, and a retry of it doesn't archive entries twice.
+   */
+  const pendingArchive = new WeakMap<SessionData, Calculation[]>();
+
+  /**
+   * @summary Records that resources changed, to be announced by the next `saveSession`.
+   * @param uris Resource URIs without query; a subscription to `calculator://history?...`
+   * is notified when `calculator://history` changes.
+   */
+  const markUpdated = (sessionData: SessionData, ...uris: string[]): void => {
+    const pending = pendingUpdates.get(sessionData) ?? new Set<string>();
+    uris.forEach((uri) => pending.add(uri));
+    pendingUpdates.set(sessionData, pending);
+  };
+
+  /**
+   * @summary Records that calculations were added to or removed from the history.
+   * @remarks Besides each calculation's own resource, this changes the history listing and
+   * the calculation count shown by the session info.
+   */
+  const markHistoryUpdated = (sessionData: SessionData, calculations: Calculation[]): void => {
+    markUpdated(
+      sessionData,
+      'calculator://history',
+      'calculator://history/export',
+      `session://info/${sessionId}`,
+      ...calculations.map((c) => `calculator://history/${c.id}`),
+    );
+  };
+
+  /**
+   * @summary Sends `notifications/resources/updated` for the subscribed resources that changed.
+   */
+  const notifySubscribers = async (
+    sessionData: SessionData,
+    pending: Set<string> | undefined,
+  ): Promise<void> => {
+    if (!pending) {
+      return;
+    }
+    for (const uri of sessionData.subscriptions) {
+      if (pending.has(uri.split('?')[0] ?? uri)) {
+        await server.server.sendResourceUpdated({ uri });
+      }
+    }
+  };
+
+  /**
+   * @summary Persists the session state, unless the request has been cancelled.
+   * @remarks Every stateful tool saves through this helper. Checking for cancellation right
+   * before the write means a cancelled call never leaves partial state behind, however far
+   * its handler got. Once saved, evicted calculations are archived and subscribers of the
+   * changed resources are notified.
+   * @throws {OperationCancelledError} If the client cancelled the request or disconnected.
+   * @throws {StorageOperationFailedError} If persisting the session state fails.
+   */
+  const saveSession = async (sessionData: SessionData, signal: AbortSignal): Promise<void> => {
+    // Take the pending work before anything can fail, so an aborted or failed save drops it
+    // instead of leaving it for whichever save of this object comes next
+    const evicted = pendingArchive.get(sessionData);
+    const updated = pendingUpdates.get(sessionData);
+    pendingArchive.delete(sessionData);
+    pendingUpdates.delete(sessionData);
+
+    throwIfCancelled(signal);
+    await sessionStore.set(sessionId, sessionData);
+
+    if (evicted) {
+      await historyArchive?.archive(sessionId, evicted);
+    }
+    await notifySubscribers(sessionData, updated);
+  };
+
+  /**
+   * @summary Appends a calculation to the session history.
+   * @remarks Every stateful tool records its events through this helper, so the ring buffer
+   * limit, the `ans` variable and resource notifications are maintained in exactly one place.
+   * The caller is still responsible for persisting the session afterwards.
+   */
+  const recordCalculation = (sessionData: SessionData, calculation: Calculation): void => {
+    sessionData.calculations.push(calculation);
+
+    /**
+     * Ring buffer implementation: Maintain bounded history.
+     * WHY: Prevents unbounded memory growth while keeping recent history.
+     */
+    const evicted = evictOverflow(sessionData);
+    markHistoryUpdated(sessionData, [calculation, ...evicted]);
+    // Every calculation also counts towards the aggregate statistics
+    markUpdated(sessionData, 'calculator://stats');
+
+    // The latest result is always available to the next step as `ans`
+    syncAnswer(sessionData);
+
+    // A new event starts a new timeline, so previously undone calculations can't be redone
+    sessionData.redoStack = [];
+  };
+
+  /**
+   * @summary Trims the history to `config.historySize`; the evicted calculations are archived
+   * by the next `saveSession`.
+   * @remarks Archived calculations stay readable via `calculator://history/{calculationId}`,
+   * so IDs handed out earlier in a long session keep resolving.
+   * @returns The evicted calculations, oldest first.
+   */
+  const evictOverflow = (sessionData: SessionData): Calculation[] => {
+    const overflow = sessionData.calculations.length - config.historySize;
+    if (overflow <= 0) {
+      return [];
+    }
+    const evicted = sessionData.calculations.splice(0, overflow);
+    pendingArchive.set(sessionData, [...(pendingArchive.get(sessionData) ?? []), ...evicted]);
+    return evicted;
+  };
+
+  /**
+   * @summary Points `ans` at the latest calculation.
+   * @remarks Removes `ans` entirely when the history is empty, so stale values can't leak.
+   * Results beyond the double range only live on as the exact result in the history.
+   */
+  const syncAnswer = (sessionData: SessionData): void => {
+    const latest = sessionData.calculations.at(-1);
+    if (latest && latest.result !== null) {
+      sessionData.variables[ANSWER_VARIABLE] = latest.result;
+    } else {
+      delete sessionData.variables[ANSWER_VARIABLE];
+    }
+  };
+
+  /**
+   * Tools registered for the session's user-defined functions, keyed by function name,
+   * together with the definition each one was registered from.
+   */
+  const functionTools = new Map<string, { tool: RegisteredTool; definition: UserFunction }>();
+
+  /**
+   * @summary Registers a user-defined function as a tool of this session's server.
+   * @remarks Each parameter becomes a tool argument that accepts a number or a session
+   * variable name. Calls are recorded in history with operation `function:<name>`.
+   * @throws {Error} If a tool with the same name is already registered.
+   */
+  const registerFunctionTool = (definition: UserFunction): RegisteredTool => {
+    const body = parseExpression(definition.body);
+    const signature = `${definition.name}(${definition.params.join(', ')})`;
+
+    return server.tool(
+      definition.name,
+      definition.description ?? `User-defined function ${signature} = ${definition.body}`,
+      Object.fromEntries(
+        definition.params.map((param) => [param, operandSchema.describe(`Value of ${param}`)]),
+      ),
+      async (args: Record<string, Operand>, { signal }): Promise<CallToolResult> => {
+        const sessionData = await getSessionData();
+        const inputs = definition.params.map((param) =>
+          resolveOperand(sessionData, args[param] as Operand),
+        );
+        const result = evaluateExpression(
+          body,
+          Object.fromEntries(definition.params.map((param, i) => [param, inputs[i] ?? 0])),
+        );
+
+        const calculation: Calculation = {
+          id: randomUUID(),
+          sessionId,
+          timestamp: Date.now(),
+          operation: `function:${definition.name}`,
+          inputs,
+          result,
+          expression: `${signature} = ${definition.body}`,
+        };
+
+        recordCalculation(sessionData, calculation);
+        await saveSession(sessionData, signal);
+        calculationCounter.inc({ operation: 'function' });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${definition.name}(${formatList(
+                inputs.map((input) => formatNumber(input, sessionData.locale)),
+                sessionData.locale,
+              )}) = ${formatNumber(result, sessionData.locale)}`,
+            },
+          ],
+          isError: false,
+        };
+      },
+    );
+  };
+
+  /**
+   * @summary Makes the registered function tools match the session's stored definitions.
+   * @remarks Called on every session read, so a session reconstructed on another node (or
+   * changed there) exposes exactly the functions in the store. Registering and removing
+   * tools makes the SDK send `notifications/tools/list_changed` to connected clients.
+   */
+  const syncFunctionTools = (sessionData: SessionData): void => {
+    for (const [name, entry] of functionTools) {
+      if (sessionData.functions[name]?.createdAt !== entry.definition.createdAt) {
+        entry.tool.remove();
+        functionTools.delete(name);
+      }
+    }
+    for (const definition of Object.values(sessionData.functions)) {
+      if (!functionTools.has(definition.name)) {
+        functionTools.set(definition.name, { tool: registerFunctionTool(definition), definition });
+      }
+    }
+  };
+
   /**
    * Educational tool registration based on environment variable.
    * WHY: This demonstrates how to make tool registration dynamic based on
@@ -756,24 +1622,56 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
   // Demonstrates a core stateful tool. It performs a calculation,
   // modifies the session's history array, and persists the change.
   // KEY PATTERN: State modification + persistence in every stateful operation
-  server.tool(
+  server.registerTool(
     'calculate',
-    'Performs arithmetic calculations',
-    calculateArgsSchema.shape,
+    {
+      title: 'Calculator',
+      description: 'Performs arithmetic calculations',
+      inputSchema: calculateArgsSchema.shape,
+      outputSchema: calculateResultSchema,
+    },
     /**
      * @summary Executes a stateful arithmetic calculation.
      * @remarks This is a core stateful tool. It performs a calculation,
      * modifies the session's history array, persists the change to the session store,
      * and increments a Prometheus metric. It also demonstrates progress streaming.
+     * The `precision` argument (or the session default) selects float, decimal or bigint
+     * arithmetic; exact results are stored as strings in `exactResult`. Operands given as
+     * quantities (`"5 km"`, `"60 km/h"`) switch to unit-aware arithmetic with dimensional
+     * analysis; the units are stored in `inputUnits` and `unit`. The result is returned both
+     * as text and as structured content matching `calculateResultSchema`.
      * @param args The validated tool arguments, matching `CalculateArgs`.
-     * @param extra An object containing callbacks like `sendNotification`.
+     * @param extra An object containing callbacks like `sendNotification` and the abort `signal`.
      * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
-     * @throws {McpError} with code `InvalidParams` if a division by zero is attempted.
+     * @throws {ArithmeticError} with code `InvalidParams` if a division by zero is attempted,
+     * or the operands are invalid for the requested precision.
+     * @throws {UnitError} with code `InvalidParams` for unknown units or incompatible dimensions.
+     * @throws {VariableNotFoundError} If an operand names an undefined session variable.
+     * @throws {OperationCancelledError} If the client cancels the request or disconnects.
      * @throws {StorageOperationFailedError} If persisting the updated session state fails.
      */
-    async ({ a, b, op, stream }: CalculateArgs, { sendNotification }): Promise<CallToolResult> => {
+    async (args: CalculateArgs, { sendNotification, signal }): Promise<CallToolResult> => {
+      const { op, stream } = args;
       const requestId = randomUUID();
       const sessionData = await getSessionData();
+      const precision = resolvePrecision(sessionData, args.precision, args.digits);
+
+      /**
+       * Operands may name session variables or carry units, so resolve them before doing
+       * any work. As soon as one operand has a unit, the whole calculation is unit-aware.
+       */
+      const quantities = [args.a, args.b].some(isQuantityOperand)
+        ? ([resolveQuantity(sessionData, args.a), resolveQuantity(sessionData, args.b)] as const)
+        : undefined;
+      if (quantities && isExactMode(precision.mode)) {
+        throw new ArithmeticError('Unit-aware calculations support float precision only');
+      }
+      const a = quantities
+        ? formatQuantity(quantities[0])
+        : resolveExactOperand(sessionData, args.a as Operand);
+      const b = quantities
+        ? formatQuantity(quantities[1])
+        : resolveExactOperand(sessionData, args.b as Operand);
 
       if (stream) {
         /**
@@ -790,7 +1688,7 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
           },
         });
 
-        await new Promise((resolve) => setTimeout(resolve, 100));
+        await delay(100, signal);
 
         await sendNotification({
           method: 'notifications/progress',
@@ -801,57 +1699,52 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
           },
         });
 
-        await new Promise((resolve) => setTimeout(resolve, 100));
+        await delay(100, signal);
       }
 
-      let result: number;
-      switch (op) {
-        case 'add':
-          result = a + b;
-          break;
-        case 'subtract':
-          result = a - b;
-          break;
-        case 'multiply':
-          result = a * b;
-          break;
-        case 'divide':
-          if (b === 0) {
-            // CAVEAT: It is critical to validate business logic rules like this and
-            // throw a specific, protocol-compliant error. Simply letting this proceed
-            // would result in `Infinity`, which might be an unexpected or unhandled
-            // result for the client. Failing fast is safer.
-            throw new McpError(ErrorCode.InvalidParams, 'Division by zero is not allowed');
-          }
-          result = a / b;
-          break;
-      }
-
-      /**
-       * Event sourcing pattern: Create an immutable calculation record.
-       * WHY: This provides complete audit trail and enables session reconstruction.
-       */
-      const calculation: Calculation = {
-        id: requestId,
-        sessionId,
-        timestamp: Date.now(),
-        operation: op,
-        inputs: [a, b],
-        result,
-      };
-
-      sessionData.calculations.push(calculation);
+      const { locale } = sessionData;
+      let calculation: Calculation;
+      let result: string;
+      // The text content is for people, so it follows the session's locale
+      let display: string;
+      if (quantities) {
+        const quantity = combineQuantities(op, quantities[0], quantities[1]);
+        result = formatQuantity(quantity);
+        display = `${formatQuantity(quantities[0], locale)} ${op} ${formatQuantity(quantities[1], locale)} = ${formatQuantity(quantity, locale)}`;
+        calculation = {
+          id: requestId,
+          sessionId,
+          timestamp: Date.now(),
+          operation: op,
+          inputs: [quantities[0].value, quantities[1].value],
+          result: quantity.value,
+          inputUnits: quantities.map((q) => formatUnit(q.unit)),
+          unit: formatUnit(quantity.unit),
+        };
+      } else {
+        const outcome = calculateBasic(op, a, b, precision);
+        result = outcome.exact ?? String(outcome.value);
+        display = `${formatNumber(a, locale)} ${op} ${formatNumber(b, locale)} = ${formatNumber(result, locale)}`;
 
-      /**
-       * Ring buffer implementation: Maintain bounded history.
-       * WHY: Prevents unbounded memory growth while keeping recent history.
-       */
-      if (sessionData.calculations.length > 50) {
-        sessionData.calculations.shift();
+        /**
+         * Event sourcing pattern: Create an immutable calculation record.
+         * WHY: This provides complete audit trail and enables session reconstruction.
+         */
+        calculation = {
+          id: requestId,
+          sessionId,
+          timestamp: Date.now(),
+          operation: op,
+          inputs: [Number(a), Number(b)],
+          result: outcome.value,
+          ...exactFields(precision, [a, b], outcome.exact),
+        };
       }
 
+      recordCalculation(sessionData, calculation);
+
       // Persist the updated session state
-      await sessionStore.set(sessionId, sessionData);
+      await saveSession(sessionData, signal);
 
       // Update Prometheus metrics for observability
       calculationCounter.inc({ operation: op });
@@ -867,11 +1760,94 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
         });
       }
 
+      const expression = `${a} ${op} ${b} = ${result}`;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${display}${isExactMode(precision.mode) ? ` (${describePrecision(precision)})` : ''}`,
+          },
+        ],
+        structuredContent: {
+          calculationId: calculation.id,
+          operation: op,
+          a,
+          b,
+          result: calculation.result,
+          ...(calculation.exactResult !== undefined
+            ? { exactResult: calculation.exactResult }
+            : {}),
+          precision: precision.mode,
+          ...(calculation.unit !== undefined ? { unit: calculation.unit } : {}),
+          expression,
+        },
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: evaluate_expression ---
+  // Demonstrates evaluating a whole formula in a single round-trip.
+  // KEY PATTERN: Safe parsing (no eval) + the same history persistence as `calculate`
+  server.tool(
+    'evaluate_expression',
+    'Evaluates an infix expression with parentheses, precedence and functions',
+    evaluateExpressionArgsSchema.shape,
+    /**
+     * @summary Parses and evaluates an infix expression such as `(3 + 4) * sqrt(2) / x`.
+     * @remarks Supports `+ - * / ^`, unary minus, parentheses, the constants `pi` and `e`, and
+     * the functions of `advanced_calculate` (`factorial`, `power`, `sqrt`, `log`, `sin`, `cos`,
+     * `tan`). Session variables (including `ans`) can be referenced by name. The
+     * expression is parsed by a recursive-descent parser, never by `eval`. The
+     * canonical form of the parsed expression is stored with the calculation in session history.
+     * @param args The validated tool arguments, matching `EvaluateExpressionArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {ExpressionError} with code `InvalidParams` for syntax errors, unknown names,
+     * domain errors, or a non-finite result.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async (
+      { expression, variables }: EvaluateExpressionArgs,
+      { signal },
+    ): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+
+      // Parse first so syntax errors are reported before any state is touched
+      const ast = parseExpression(expression);
+
+      // Session variables are visible to the expression; per-call bindings take precedence
+      const scope = { ...sessionData.variables, ...variables };
+      const result = evaluateExpression(ast, scope);
+      const canonical = formatExpression(ast);
+
+      /**
+       * The inputs are the values of the variables the expression references, in order of
+       * first use. Together with the canonical expression they fully describe the event.
+       */
+      const inputs = collectVariables(ast)
+        .map((name) => scope[name])
+        .filter((value): value is number => value !== undefined);
+
+      const calculation: Calculation = {
+        id: randomUUID(),
+        sessionId,
+        timestamp: Date.now(),
+        operation: 'expression',
+        inputs,
+        result,
+        expression: canonical,
+      };
+
+      recordCalculation(sessionData, calculation);
+
+      await saveSession(sessionData, signal);
+      calculationCounter.inc({ operation: 'expression' });
+
       return {
         content: [
           {
             type: 'text',
-            text: `${a} ${op} ${b} = ${result}`,
+            text: `${canonical} = ${formatNumber(result, sessionData.locale)}`,
           },
         ],
         isError: false,
@@ -882,72 +1858,141 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
   // --- Tool: batch_calculate ---
   // Demonstrates batch processing with progress reporting.
   // KEY PATTERN: Iterative processing with optional progress updates
-  server.tool(
+  server.registerTool(
     'batch_calculate',
-    'Perform multiple calculations in batch',
-    batchCalculateArgsSchema.shape,
+    {
+      title: 'Batch Calculator',
+      description: 'Perform multiple calculations in batch',
+      inputSchema: batchCalculateArgsSchema.shape,
+      outputSchema: batchCalculateResultSchema,
+    },
     /**
      * @summary Executes multiple arithmetic calculations in batch with optional progress reporting.
      * @remarks This tool demonstrates batch processing patterns, iterating through multiple
      * calculations while optionally providing real-time progress updates to the client.
-     * Each calculation is stored individually in the session history.
+     * Each calculation is stored individually in the session history. Operands may name
+     * session variables or reference the result of another item as `$N`; items run in
+     * dependency order and are reported in input order. Bad references, reference cycles,
+     * undefined variables and arithmetic errors fail only the affected item (and the items
+     * depending on it), unless `stopOnError` is set: then the batch halts at the first
+     * failure, the remaining items are skipped, and the items already computed are kept.
+     * The structured content lists a result, error or skip entry for every item, matching
+     * `batchCalculateResultSchema`.
      * @param args The validated tool arguments, matching `BatchCalculateArgs`.
-     * @param extra An object containing callbacks like `sendNotification`.
+     * @param extra An object containing callbacks like `sendNotification` and the abort `signal`.
      * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
-     * @throws {McpError} with code `InvalidParams` if any calculation involves division by zero.
+     * @throws {OperationCancelledError} If the client cancels the batch or disconnects; none of
+     * the items processed so far are saved.
      * @throws {StorageOperationFailedError} If persisting the updated session state fails.
      */
     async (
-      { calculations, reportProgress }: BatchCalculateArgs,
-      { sendNotification },
+      { calculations, stopOnError, reportProgress, precision: mode, digits }: BatchCalculateArgs,
+      { sendNotification, signal },
     ): Promise<CallToolResult> => {
       const sessionData = await getSessionData();
-      const results = [];
+      const precision = resolvePrecision(sessionData, mode, digits);
       const batchId = randomUUID();
+      const { order, problems } = planBatch(calculations);
+
+      // Items run in dependency order, but results are reported in input order
+      const results: BatchCalculateResult['results'] = [];
+      // Result (exact where available) of every item that succeeded, for `$N` references
+      const values = new Map<number, string>();
+      // Every successful item as shown in the text content, in the session's locale
+      const displays = new Map<number, string>();
+      let halted = false;
+
+      /**
+       * Resolves and computes a single item. Failures are returned rather than thrown, so
+       * they only affect this item (and, through `values`, the items that reference it).
+       */
+      const evaluateItem = (
+        i: number,
+        calc: BatchCalculateArgs['calculations'][number],
+      ):
+        | { a: string; b: string; outcome: ReturnType<typeof calculateBasic> }
+        | { error: BatchItemError } => {
+        const problem = problems.get(i);
+        if (problem) {
+          return { error: problem };
+        }
+        const failedDependency = [calc.a, calc.b]
+          .map(parseReference)
+          .find((target) => target !== undefined && !values.has(target));
+        if (failedDependency !== undefined) {
+          return {
+            error: {
+              code: 'dependency_failed',
+              message: `Item ${i} depends on item ${failedDependency}, which failed`,
+              dependsOn: failedDependency,
+            },
+          };
+        }
+
+        try {
+          const [a, b] = [calc.a, calc.b].map((operand) => {
+            const target = parseReference(operand);
+            return target !== undefined
+              ? (values.get(target) ?? '')
+              : resolveExactOperand(sessionData, operand as Operand);
+          }) as [string, string];
+          return { a, b, outcome: calculateBasic(calc.op, a, b, precision) };
+        } catch (error) {
+          if (error instanceof VariableNotFoundError) {
+            return {
+              error: {
+                code: 'undefined_variable',
+                message: `Undefined variable '${error.variable}'`,
+              },
+            };
+          }
+          if (error instanceof ArithmeticError) {
+            return { error: { code: 'arithmetic_error', message: error.reason } };
+          }
+          throw error;
+        }
+      };
+
+      for (const [step, i] of order.entries()) {
+        // Stop between items, so an aborted batch doesn't keep computing
+        throwIfCancelled(signal);
 
-      for (let i = 0; i < calculations.length; i++) {
         const calc = calculations[i];
         if (!calc) {
           continue; // Skip if undefined (should never happen)
         }
+        if (halted) {
+          results[i] = { index: i, status: 'skipped', input: calc };
+          continue;
+        }
 
+        const evaluated = evaluateItem(i, calc);
         if (reportProgress) {
-          const progress = (i + 1) / calculations.length;
           await sendNotification({
             method: 'notifications/progress',
             params: {
               progressToken: batchId,
-              progress,
-              data: `Processing calculation ${i + 1}/${calculations.length}: ${calc.a} ${calc.op} ${calc.b}`,
+              progress: (step + 1) / calculations.length,
+              data:
+                'error' in evaluated
+                  ? `Calculation ${step + 1}/${calculations.length} failed: ${evaluated.error.message}`
+                  : `Processing calculation ${step + 1}/${calculations.length}: ${evaluated.a} ${calc.op} ${evaluated.b}`,
             },
           });
         }
-
-        let result: number;
-        switch (calc.op) {
-          case 'add':
-            result = calc.a + calc.b;
-            break;
-          case 'subtract':
-            result = calc.a - calc.b;
-            break;
-          case 'multiply':
-            result = calc.a * calc.b;
-            break;
-          case 'divide':
-            if (calc.b === 0) {
-              results.push({ error: 'Division by zero', input: calc });
-              continue;
-            }
-            result = calc.a / calc.b;
-            break;
+        if ('error' in evaluated) {
+          results[i] = { index: i, status: 'error', input: calc, error: evaluated.error };
+          halted = stopOnError === true;
+          continue;
         }
 
-        results.push({
-          input: calc,
-          result,
-          expression: `${calc.a} ${calc.op} ${calc.b} = ${result}`,
-        });
+        const { a, b, outcome } = evaluated;
+        const result = outcome.exact ?? String(outcome.value);
+        values.set(i, result);
+        displays.set(
+          i,
+          `${formatNumber(a, sessionData.locale)} ${calc.op} ${formatNumber(b, sessionData.locale)} = ${formatNumber(result, sessionData.locale)}`,
+        );
 
         // Store each calculation in history
         const calculation: Calculation = {
@@ -955,30 +2000,194 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
           sessionId,
           timestamp: Date.now(),
           operation: calc.op,
-          inputs: [calc.a, calc.b],
-          result,
+          inputs: [Number(a), Number(b)],
+          result: outcome.value,
+          ...exactFields(precision, [a, b], outcome.exact),
+        };
+
+        results[i] = {
+          index: i,
+          status: 'ok',
+          input: calc,
+          calculationId: calculation.id,
+          result: calculation.result,
+          ...(calculation.exactResult !== undefined
+            ? { exactResult: calculation.exactResult }
+            : {}),
+          precision: precision.mode,
+          expression: `${a} ${calc.op} ${b} = ${result}`,
         };
 
-        sessionData.calculations.push(calculation);
+        // Later items may reference `ans`, which now holds this item's result
+        recordCalculation(sessionData, calculation);
         calculationCounter.inc({ operation: calc.op });
       }
 
-      // Ring buffer maintenance
-      while (sessionData.calculations.length > 50) {
-        sessionData.calculations.shift();
+      await saveSession(sessionData, signal);
+
+      const count = (status: string): number => results.filter((r) => r.status === status).length;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Batch calculation ${halted ? 'stopped at the first error' : 'completed'}. Results:\n${results
+              .map((r) => {
+                switch (r.status) {
+                  case 'ok':
+                    return `$${r.index}: ${displays.get(r.index) ?? r.expression}`;
+                  case 'error':
+                    return `$${r.index}: Error (${r.error.code}): ${r.error.message}`;
+                  case 'skipped':
+                    return `$${r.index}: Skipped`;
+                }
+              })
+              .join('\n')}`,
+          },
+        ],
+        structuredContent: {
+          results,
+          succeeded: count('ok'),
+          failed: count('error'),
+          skipped: count('skipped'),
+        },
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: solve_word_problem ---
+  // Demonstrates sampling: mid-request, the server asks the client's model for help
+  server.registerTool(
+    'solve_word_problem',
+    {
+      title: 'Word Problem Solver',
+      description:
+        "Solve a math word problem: the client's model plans the calculations and the calculator carries them out (requires sampling support)",
+      inputSchema: solveWordProblemArgsSchema.shape,
+      outputSchema: solveWordProblemResultSchema,
+    },
+    /**
+     * @summary Solves a word problem with a plan from the client's model and the server's
+     * arithmetic.
+     * @remarks The problem is sent to the client with `sampling/createMessage`, which travels
+     * over the session's GET SSE stream. The model replies with a plan of `calculate` and
+     * `advanced_calculate` steps (see wordproblem.ts); the server runs the steps in the
+     * session's precision and records each of them in the history. Clients without sampling
+     * support, and sampling requests that are declined, fail or time out, get a regular
+     * (non-error) result explaining that the problem was not solved, with `status` saying why.
+     * @param args The validated tool arguments, matching `SolveWordProblemArgs`.
+     * @param extra An object containing the abort `signal`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {WordProblemError} If the model's reply is not a valid plan or a step fails;
+     * nothing is recorded then.
+     * @throws {OperationCancelledError} If the client cancels the call or disconnects.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async (
+      { problem, precision: mode, digits }: SolveWordProblemArgs,
+      { signal },
+    ): Promise<CallToolResult> => {
+      let sessionData = await getSessionData();
+
+      const unsolved = (
+        status: Exclude<SolveWordProblemResult['status'], 'solved'>,
+        reason: string,
+      ): CallToolResult => ({
+        content: [
+          {
+            type: 'text',
+            text: `${reason}. Break the problem into steps and use calculate, advanced_calculate or batch_calculate instead.`,
+          },
+        ],
+        structuredContent: { status, reason, steps: [] },
+        isError: false,
+      });
+
+      if (!server.server.getClientCapabilities()?.sampling) {
+        return unsolved(
+          'sampling_unavailable',
+          'This client does not support sampling, so the problem could not be planned',
+        );
+      }
+
+      let reply: CreateMessageResult;
+      try {
+        reply = await server.server.createMessage(wordProblemRequest(problem), {
+          signal,
+          timeout: SAMPLING_TIMEOUT_MS,
+        });
+      } catch (error) {
+        throwIfCancelled(signal);
+        // Declined by the user, failed in the client, or never answered
+        return unsolved(
+          'sampling_failed',
+          `The client's model could not plan the problem (${error instanceof Error ? error.message : String(error)})`,
+        );
+      }
+      if (reply.content.type !== 'text') {
+        throw new WordProblemError(
+          `The model replied with ${reply.content.type} content instead of a JSON plan`,
+        );
+      }
+      // The session may have changed while the client's model was planning
+      sessionData = await getSessionData();
+      const precision = resolvePrecision(sessionData, mode, digits);
+
+      // Nothing is recorded before every step has succeeded
+      const solved = solvePlan(parsePlan(reply.content.text), precision);
+      const { locale } = sessionData;
+      const steps: SolveWordProblemResult['steps'] = [];
+      const displays: string[] = [];
+      for (const { index, step, inputs, outcome } of solved) {
+        const result = outcome.exact ?? String(outcome.value);
+        const calculation: Calculation = {
+          id: randomUUID(),
+          sessionId,
+          timestamp: Date.now(),
+          operation: step.op,
+          inputs: inputs.map(Number),
+          result: outcome.value,
+          ...exactFields(precision, inputs, outcome.exact),
+        };
+        recordCalculation(sessionData, calculation);
+        calculationCounter.inc({ operation: step.op });
+
+        steps.push({
+          index,
+          ...(step.description !== undefined ? { description: step.description } : {}),
+          calculationId: calculation.id,
+          result: calculation.result,
+          ...(calculation.exactResult !== undefined
+            ? { exactResult: calculation.exactResult }
+            : {}),
+          precision: precision.mode,
+          expression:
+            'a' in step
+              ? `${inputs[0]} ${step.op} ${inputs[1]} = ${result}`
+              : `${step.op}(${inputs.join(', ')}) = ${result}`,
+        });
+        const shown = inputs.map((input) => formatNumber(input, locale));
+        const display = `${
+          'a' in step
+            ? `${shown[0]} ${step.op} ${shown[1]}`
+            : `${step.op}(${formatList(shown, locale)})`
+        } = ${formatNumber(result, locale)}`;
+        displays.push(
+          `$${index}: ${step.description !== undefined ? `${step.description}: ` : ''}${display}`,
+        );
       }
 
-      await sessionStore.set(sessionId, sessionData);
+      await saveSession(sessionData, signal);
 
+      const answer = solved[solved.length - 1]?.outcome;
       return {
         content: [
           {
             type: 'text',
-            text: `Batch calculation completed. Results:\n${results
-              .map((r) => ('error' in r ? `Error: ${r.error}` : r.expression))
-              .join('\n')}`,
+            text: `Solved in ${solved.length} step(s) planned by ${reply.model}:\n${displays.join('\n')}\nAnswer: ${formatNumber(answer?.exact ?? String(answer?.value), locale)}`,
           },
         ],
+        structuredContent: { status: 'solved', model: reply.model, steps },
         isError: false,
       };
     },
@@ -987,59 +2196,54 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
   // --- Tool: advanced_calculate ---
   // Demonstrates scientific and mathematical operations.
   // KEY PATTERN: Extended functionality while maintaining the same state patterns
-  server.tool(
+  server.registerTool(
     'advanced_calculate',
-    'Advanced mathematical operations',
-    advancedCalculateArgsSchema.shape,
+    {
+      title: 'Advanced Calculator',
+      description: 'Advanced mathematical operations',
+      inputSchema: advancedCalculateArgsSchema.shape,
+      outputSchema: advancedCalculateResultSchema,
+    },
     /**
      * @summary Executes advanced mathematical operations like factorial, power, and trigonometric functions.
      * @remarks This tool extends the basic calculator with scientific functions while maintaining
      * the same state management patterns. Each operation is validated and stored in session history.
+     * In `decimal` and `bigint` precision, results like `factorial(200)` are computed exactly.
+     * A `power` without a `base` asks the user for it through elicitation; only if the client
+     * can't ask, or the user gives no number, does it fail. The structured content matches
+     * `advancedCalculateResultSchema`.
      * @param args The validated tool arguments, matching `AdvancedCalculateArgs`.
+     * @param extra An object containing the `requestId` and the abort `signal`.
      * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
-     * @throws {McpError} with code `InvalidParams` for invalid mathematical inputs.
+     * @throws {ArithmeticError} with code `InvalidParams` for invalid mathematical inputs,
+     * including operations without an exact result in `bigint` precision and a missing base.
+     * @throws {VariableNotFoundError} If an operand names an undefined session variable.
+     * @throws {ElicitationError} If the base is missing while another question is pending.
+     * @throws {OperationCancelledError} If the client cancels the call while the user answers.
      * @throws {StorageOperationFailedError} If persisting the updated session state fails.
      */
-    async ({ operation, value, base }: AdvancedCalculateArgs): Promise<CallToolResult> => {
-      const sessionData = await getSessionData();
-      let result: number;
-
-      switch (operation) {
-        case 'factorial':
-          if (value < 0 || !Number.isInteger(value)) {
-            throw new McpError(ErrorCode.InvalidParams, 'Factorial requires non-negative integer');
-          }
-          result =
-            value <= 1 ? 1 : Array.from({ length: value }, (_, i) => i + 1).reduce((a, b) => a * b);
-          break;
-        case 'power':
-          if (base === undefined) {
-            throw new McpError(ErrorCode.InvalidParams, 'Power operation requires base parameter');
-          }
-          result = Math.pow(base, value);
-          break;
-        case 'sqrt':
-          if (value < 0) {
-            throw new McpError(ErrorCode.InvalidParams, 'Square root of negative number');
-          }
-          result = Math.sqrt(value);
-          break;
-        case 'log':
-          if (value <= 0) {
-            throw new McpError(ErrorCode.InvalidParams, 'Logarithm requires positive number');
-          }
-          result = base ? Math.log(value) / Math.log(base) : Math.log(value);
-          break;
-        case 'sin':
-          result = Math.sin(value);
-          break;
-        case 'cos':
-          result = Math.cos(value);
-          break;
-        case 'tan':
-          result = Math.tan(value);
-          break;
+    async (args: AdvancedCalculateArgs, { signal, requestId }): Promise<CallToolResult> => {
+      const { operation } = args;
+      let sessionData = await getSessionData();
+      let baseOperand = args.base;
+      if (operation === 'power' && baseOperand === undefined) {
+        baseOperand = await askForNumber(
+          QUESTION_MESSAGES[sessionData.locale].powerBase({
+            exponent: formatNumber(args.value, sessionData.locale),
+          }),
+          { requestId, signal },
+        );
+        // The session may have changed while the user was answering
+        sessionData = await getSessionData();
       }
+      const precision = resolvePrecision(sessionData, args.precision, args.digits);
+      const value = resolveExactOperand(sessionData, args.value);
+      const base =
+        baseOperand !== undefined ? resolveExactOperand(sessionData, baseOperand) : undefined;
+
+      const outcome = calculateAdvanced(operation, value, base, precision);
+      const result = outcome.exact ?? String(outcome.value);
+      const exactInputs = base !== undefined ? [value, base] : [value];
 
       // Store calculation in history
       const calculation: Calculation = {
@@ -1047,69 +2251,104 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
         sessionId,
         timestamp: Date.now(),
         operation,
-        inputs: base !== undefined ? [value, base] : [value],
-        result,
+        inputs: exactInputs.map(Number),
+        result: outcome.value,
+        ...exactFields(precision, exactInputs, outcome.exact),
       };
 
-      sessionData.calculations.push(calculation);
-      if (sessionData.calculations.length > 50) {
-        sessionData.calculations.shift();
-      }
+      recordCalculation(sessionData, calculation);
 
-      await sessionStore.set(sessionId, sessionData);
+      await saveSession(sessionData, signal);
       calculationCounter.inc({ operation });
 
+      const expression = `${operation}(${value}${base !== undefined ? `, ${base}` : ''}) = ${result}`;
+      const { locale } = sessionData;
+      const display = `${operation}(${formatList(
+        exactInputs.map((input) => formatNumber(input, locale)),
+        locale,
+      )}) = ${formatNumber(result, locale)}`;
       return {
         content: [
           {
             type: 'text',
-            text: `${operation}(${value}${base !== undefined ? `, ${base}` : ''}) = ${result}`,
+            text: `${display}${isExactMode(precision.mode) ? ` (${describePrecision(precision)})` : ''}`,
           },
         ],
+        structuredContent: {
+          calculationId: calculation.id,
+          operation,
+          value,
+          ...(base !== undefined ? { base } : {}),
+          result: calculation.result,
+          ...(calculation.exactResult !== undefined
+            ? { exactResult: calculation.exactResult }
+            : {}),
+          precision: precision.mode,
+          expression,
+        },
         isError: false,
       };
     },
   );
 
-  // --- Tool: demo_progress ---
-  // Demonstrates sending real-time progress updates to the client
-  // for long-running operations using the `sendNotification` callback.
-  // KEY PATTERN: Progress reporting for user experience
+  // --- Tool: set_precision ---
   server.tool(
-    'demo_progress',
-    'Demonstrate progress notifications',
-    demoProgressArgsSchema.shape,
+    'set_precision',
+    'Set the default arithmetic precision for this session',
+    setPrecisionArgsSchema.shape,
     /**
-     * @summary Demonstrates real-time progress notifications for long-running operations.
-     * @remarks This tool showcases how to use the `sendNotification` callback to provide
-     * real-time feedback during lengthy operations. It's purely educational and doesn't
-     * modify session state - no persistent storage operations are performed.
-     * @param args The validated tool arguments, matching `DemoProgressArgs`.
-     * @param extra An object containing callbacks like `sendNotification`.
+     * @summary Sets the session-wide precision used by `calculate`, `batch_calculate` and
+     * `advanced_calculate` when a call does not pass its own `precision`.
+     * @param args The validated tool arguments, matching `SetPrecisionArgs`.
      * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
      */
-    async ({ steps }: DemoProgressArgs, { sendNotification }): Promise<CallToolResult> => {
-      const progressToken = randomUUID();
+    async ({ mode, digits }: SetPrecisionArgs, { signal }): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+      sessionData.precision = { mode, digits: digits ?? sessionData.precision.digits };
+      await saveSession(sessionData, signal);
 
-      for (let i = 0; i <= steps; i++) {
-        await sendNotification({
-          method: 'notifications/progress',
-          params: {
-            progressToken,
-            progress: i / steps,
-            data: `Step ${i}/${steps} completed`,
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Session precision set to ${describePrecision(sessionData.precision)}`,
           },
-        });
+        ],
+        isError: false,
+      };
+    },
+  );
 
-        // Simulate work
-        await new Promise((resolve) => setTimeout(resolve, 200));
+  // --- Tool: set_locale ---
+  server.tool(
+    'set_locale',
+    'Set the session locale: how numbers are shown in tool results, and the language of prompts and error messages',
+    setLocaleArgsSchema.shape,
+    /**
+     * @summary Sets the locale of the session.
+     * @remarks Structured content, resources and exports are not affected; they stay
+     * locale-neutral for programs.
+     * @param args The validated tool arguments, matching `SetLocaleArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {LocaleError} with code `InvalidParams` if the locale is not supported.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async ({ locale }: SetLocaleArgs, { signal }): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+      const matched = matchLocale(locale);
+      if (!matched) {
+        throw new LocaleError(locale);
       }
+      sessionData.locale = matched;
+      markUpdated(sessionData, `session://info/${sessionId}`);
+      await saveSession(sessionData, signal);
 
       return {
         content: [
           {
             type: 'text',
-            text: `Progress demonstration completed with ${steps} steps`,
+            text: `Session locale set to ${matched}; numbers are shown like ${formatNumber(1234.5, matched)}`,
           },
         ],
         isError: false,
@@ -1117,44 +2356,1266 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
     },
   );
 
-  // ==========================================
-  // RESOURCES
-  // ==========================================
+  // --- Tool: convert_units ---
+  // Demonstrates unit conversion with dimensional analysis.
+  server.tool(
+    'convert_units',
+    `Convert a value between compatible units. Supported units: ${UNIT_SYMBOLS.join(', ')} and compounds like km/h or m/s^2`,
+    convertUnitsArgsSchema.shape,
+    /**
+     * @summary Converts a value from one unit to another, e.g. `100 km/h` to `m/s`.
+     * @remarks Both units must measure the same dimension. Temperature scales with an offset
+     * (`degC`, `degF`) are converted correctly. The conversion is recorded in history with
+     * operation `convert`, so its result is also available as `ans`.
+     * @param args The validated tool arguments, matching `ConvertUnitsArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {UnitError} with code `InvalidParams` for unknown units or incompatible dimensions.
+     * @throws {VariableNotFoundError} If the value names an undefined session variable.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async (args: ConvertUnitsArgs, { signal }): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+      const value = resolveOperand(sessionData, args.value);
+      const converted = convertUnits(value, args.from, args.to);
+      const source = { value, unit: parseUnit(args.from) };
 
-  /**
-   * Resources provide read-only access to server data.
-   * They demonstrate different URI patterns and data access methods.
-   */
+      const calculation: Calculation = {
+        id: randomUUID(),
+        sessionId,
+        timestamp: Date.now(),
+        operation: 'convert',
+        inputs: [value],
+        result: converted.value,
+        inputUnits: [formatUnit(source.unit)],
+        unit: formatUnit(converted.unit),
+      };
 
-  // --- Resource: calculator-constants ---
-  // Static resource demonstrating simple data exposure
+      recordCalculation(sessionData, calculation);
+      await saveSession(sessionData, signal);
+      calculationCounter.inc({ operation: 'convert' });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${formatQuantity(source, sessionData.locale)} = ${formatQuantity(converted, sessionData.locale)}`,
+          },
+        ],
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: statistics ---
+  // Demonstrates analysis over data sets and over the session's own history.
+  server.tool(
+    'statistics',
+    'Compute mean, median, mode, variance, standard deviation, percentiles and linear regression over a data set or the calculation history',
+    statisticsArgsSchema.shape,
+    /**
+     * @summary Computes descriptive statistics and a linear regression.
+     * @remarks With `data`, the given numbers are analysed (`x` optionally pairs them for the
+     * regression). Without it, the `result` values of the session's history are used,
+     * optionally filtered by `operation` and limited to the `last` N entries. The analysis is
+     * not itself recorded in history.
+     * @param args The validated tool arguments, matching `StatisticsArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {ArithmeticError} with code `InvalidParams` if there is nothing to analyse or
+     * `x` does not match the data.
+     */
+    async (args: StatisticsArgs): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+      const values =
+        args.data ?? historyValues(sessionData.calculations, args.operation, args.last);
+      if (values.length === 0) {
+        throw new ArithmeticError(
+          args.operation
+            ? `No calculations with operation '${args.operation}' in history to analyse`
+            : 'No calculations in history to analyse; pass a data set instead',
+        );
+      }
+      const summary = summarize(values, args.percentiles, args.x);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatSummary(summary, sessionData.locale),
+          },
+        ],
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: matrix_calculate ---
+  // Demonstrates structured (non-scalar) inputs and results in the calculation history.
+  server.tool(
+    'matrix_calculate',
+    'Matrix operations: add, subtract, multiply, transpose, determinant, inverse, and solve Ax = b',
+    matrixCalculateArgsSchema.shape,
+    /**
+     * @summary Performs a matrix operation and records it in history.
+     * @remarks Matrices are given as lists of rows. Operand shapes are checked against the
+     * operation by `matrixOperandsSchema` before any work is done. Matrix and vector values
+     * are stored in `structuredInputs`/`structuredResult` with operation `matrix_<op>`; only
+     * the determinant is a scalar `result` and thereby becomes `ans`.
+     * @param args The validated tool arguments, matching `MatrixCalculateArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {MatrixDimensionError} with code `InvalidParams` if the operand shapes do not
+     * fit the operation.
+     * @throws {ArithmeticError} with code `InvalidParams` if the matrix is singular.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async (args: MatrixCalculateArgs, { signal }): Promise<CallToolResult> => {
+      const checked = matrixOperandsSchema.safeParse(args);
+      if (!checked.success) {
+        const issues = checked.error.issues.map((issue) => issue.message);
+        throw new MatrixDimensionError(issues[0] ?? 'Invalid matrix dimensions', {
+          operation: args.operation,
+          issues,
+        });
+      }
+
+      const sessionData = await getSessionData();
+      const outcome = calculateMatrix(args.operation, args.a, args.b);
+      const structuredResult =
+        'matrix' in outcome ? outcome.matrix : 'vector' in outcome ? outcome.vector : undefined;
+      const operation = `matrix_${args.operation}`;
+
+      const calculation: Calculation = {
+        id: randomUUID(),
+        sessionId,
+        timestamp: Date.now(),
+        operation,
+        inputs: [],
+        result: 'scalar' in outcome ? outcome.scalar : null,
+        structuredInputs: args.b === undefined ? [args.a] : [args.a, args.b],
+        ...(structuredResult ? { structuredResult } : {}),
+      };
+
+      recordCalculation(sessionData, calculation);
+      await saveSession(sessionData, signal);
+      calculationCounter.inc({ operation });
+
+      const { locale } = sessionData;
+      const operands = [args.a, ...(args.b === undefined ? [] : [args.b])].map((operand) =>
+        formatMatrix(operand, locale),
+      );
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${args.operation}(${formatList(operands, locale)}) = ${formatResult(calculation, locale)}`,
+          },
+        ],
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: solve_equation ---
+  // Demonstrates structured tool output (outputSchema + structuredContent).
+  server.registerTool(
+    'solve_equation',
+    {
+      title: 'Equation Solver',
+      description:
+        "Solve an equation in one variable: linear and quadratic exactly (including complex roots), higher-degree polynomials numerically, and any other equation by bisection or Newton's method",
+      inputSchema: solveEquationArgsSchema.shape,
+      outputSchema: solveEquationResultSchema,
+    },
+    /**
+     * @summary Solves an equation and records the solutions in history.
+     * @remarks The equation uses the `evaluate_expression` syntax; other variables in it are
+     * taken from the session. Solutions are returned both as text and as structured content
+     * matching `solveEquationResultSchema`. The history entry (operation `solve`) keeps every
+     * root in `solution`, and its `result` is the first real root, which becomes `ans`.
+     * @param args The validated tool arguments, matching `SolveEquationArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {ExpressionError} with code `InvalidParams` if the equation is invalid.
+     * @throws {ArithmeticError} with code `InvalidParams` if a numeric method finds no root.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async (args: SolveEquationArgs, { signal }): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+      const variable = args.variable ?? 'x';
+      const equation = parseEquation(args.equation);
+      const outcome = solveEquation(equation, variable, sessionData.variables, {
+        method: args.method ?? 'auto',
+        ...(args.interval ? { interval: args.interval } : {}),
+        ...(args.initialGuess !== undefined ? { initialGuess: args.initialGuess } : {}),
+        tolerance: args.tolerance ?? DEFAULT_TOLERANCE,
+        maxIterations: args.maxIterations ?? DEFAULT_MAX_ITERATIONS,
+      });
+      const realRoots = outcome.roots.filter((r) => r.imaginary === 0).map((r) => r.real);
+
+      const calculation: Calculation = {
+        id: randomUUID(),
+        sessionId,
+        timestamp: Date.now(),
+        operation: 'solve',
+        inputs: [],
+        result: realRoots[0] ?? null,
+        expression: formatEquation(equation),
+        solution: { status: outcome.status, roots: outcome.roots },
+      };
+
+      recordCalculation(sessionData, calculation);
+      await saveSession(sessionData, signal);
+      calculationCounter.inc({ operation: 'solve' });
+
+      const details = [
+        outcome.method,
+        ...(outcome.iterations !== undefined ? [`${outcome.iterations} iteration(s)`] : []),
+      ].join(', ');
+      const answer =
+        outcome.status === 'solved'
+          ? formatList(
+              outcome.roots.map(
+                (root) => `${variable} = ${formatComplex(root, sessionData.locale)}`,
+              ),
+              sessionData.locale,
+            )
+          : formatSolution(outcome);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${calculation.expression} (${details}): ${answer}`,
+          },
+        ],
+        structuredContent: {
+          calculationId: calculation.id,
+          equation: calculation.expression,
+          variable,
+          status: outcome.status,
+          method: outcome.method,
+          roots: outcome.roots,
+          realRoots,
+          ...(outcome.degree !== undefined ? { degree: outcome.degree } : {}),
+          ...(outcome.iterations !== undefined ? { iterations: outcome.iterations } : {}),
+        },
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: evaluate_formula ---
+  // Demonstrates tools driven by a declarative registry.
+  server.tool(
+    'evaluate_formula',
+    `Compute a formula from formulas://library by name. Available: ${FORMULA_NAMES.join(', ')}`,
+    evaluateFormulaArgsSchema.shape,
+    /**
+     * @summary Evaluates a library formula and records it in history.
+     * @remarks Variables may be numbers or session variable names (including `ans`) and are
+     * validated against the formula's variable schema. A formula with a single result
+     * records it as `result`; one with several (like `quadratic`) records them as a vector
+     * in `structuredResult`.
+     * @param args The validated tool arguments, matching `EvaluateFormulaArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {FormulaError} with code `InvalidParams` for unknown formulas or invalid variables.
+     * @throws {ExpressionError} with code `InvalidParams` if the formula is undefined for the
+     * given values.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async (args: EvaluateFormulaArgs, { signal }): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+      const definition = getFormula(args.name);
+      const values = Object.fromEntries(
+        Object.entries(args.variables).map(([name, operand]) => [
+          name,
+          resolveOperand(sessionData, operand),
+        ]),
+      );
+      const results = evaluateFormula(definition, values);
+      const names = Object.keys(definition.variables);
+
+      const calculation: Calculation = {
+        id: randomUUID(),
+        sessionId,
+        timestamp: Date.now(),
+        operation: `formula:${definition.name}`,
+        inputs: names.map((name) => values[name] ?? 0),
+        result: results.length === 1 ? (results[0]?.value ?? null) : null,
+        expression: definition.results
+          .map((result) => `${result.name} = ${result.expression}`)
+          .join('; '),
+        ...(results.length > 1 ? { structuredResult: results.map((r) => r.value) } : {}),
+      };
+
+      recordCalculation(sessionData, calculation);
+      await saveSession(sessionData, signal);
+      calculationCounter.inc({ operation: 'formula' });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${definition.title}: ${formatList(
+              results.map((r) => `${r.name} = ${formatNumber(r.value, sessionData.locale)}`),
+              sessionData.locale,
+            )} (${formatList(
+              names.map(
+                (name) => `${name} = ${formatNumber(values[name] ?? 0, sessionData.locale)}`,
+              ),
+              sessionData.locale,
+            )})`,
+          },
+        ],
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: plot_function ---
+  // Demonstrates image content: the chart is returned as an SVG image and also published
+  // as a resource stored with the session.
+  server.tool(
+    'plot_function',
+    'Plot one or more expressions over a range and return the chart as an SVG image',
+    plotFunctionArgsSchema.shape,
+    /**
+     * @summary Samples expressions over a range and draws them as an SVG line chart.
+     * @remarks The expressions use the `evaluate_expression` syntax and may reference session
+     * variables. Points where an expression is undefined are left as gaps. The chart is
+     * returned as `image/svg+xml` image content plus a link to `calculator://plots/{plotId}`,
+     * where it stays available; a session keeps its `MAX_SESSION_PLOTS` most recent plots.
+     * Plots are not calculations, so the history is not touched.
+     * @param args The validated tool arguments, matching `PlotFunctionArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {ExpressionError} with code `InvalidParams` if an expression is invalid.
+     * @throws {PlotError} with code `InvalidParams` if the x or y range is empty.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async (args: PlotFunctionArgs, { signal }): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+      const variable = args.variable ?? 'x';
+      const samples = args.samples ?? DEFAULT_SAMPLES;
+      const { from, to } = args;
+
+      const series = samplePlot(args.expressions, sessionData.variables, {
+        variable,
+        from,
+        to,
+        samples,
+      });
+      const title = args.title ?? series.map((s) => s.expression).join(', ');
+      const svg = renderPlot(series, {
+        variable,
+        from,
+        to,
+        samples,
+        yMin: args.yMin,
+        yMax: args.yMax,
+        title,
+        width: args.width ?? DEFAULT_WIDTH,
+        height: args.height ?? DEFAULT_HEIGHT,
+      });
+
+      const plot: Plot = {
+        id: randomUUID(),
+        title,
+        expressions: series.map((s) => s.expression),
+        variable,
+        from,
+        to,
+        svg,
+        createdAt: Date.now(),
+      };
+      sessionData.plots[plot.id] = plot;
+
+      // Bounded like the history, so charts can't grow the session without limit
+      const expired = Object.values(sessionData.plots)
+        .sort((p, q) => p.createdAt - q.createdAt)
+        .slice(0, -MAX_SESSION_PLOTS);
+      for (const old of expired) {
+        delete sessionData.plots[old.id];
+      }
+
+      await saveSession(sessionData, signal);
+      await server.server.sendResourceListChanged();
+
+      const uri = `calculator://plots/${plot.id}`;
+      const { locale } = sessionData;
+      const ranges = series.map((s) => {
+        const defined = s.points.map((p) => p.y).filter((y): y is number => y !== null);
+        if (defined.length === 0) {
+          return `${s.expression}: undefined over the whole range`;
+        }
+        const gaps = s.points.length - defined.length;
+        return `${s.expression}: y from ${formatNumber(Math.min(...defined), locale)} to ${formatNumber(Math.max(...defined), locale)}${gaps > 0 ? ` (undefined at ${gaps} of ${s.points.length} points)` : ''}`;
+      });
+
+      return {
+        content: [
+          {
+            type: 'image',
+            data: Buffer.from(svg).toString('base64'),
+            mimeType: 'image/svg+xml',
+          },
+          {
+            type: 'resource_link',
+            uri,
+            name: `plot-${plot.id}`,
+            title,
+            mimeType: 'image/svg+xml',
+          },
+          {
+            type: 'text',
+            text: `Plotted ${title} for ${variable} from ${formatNumber(from, locale)} to ${formatNumber(to, locale)} (${samples} samples), also available as ${uri}:\n${ranges.join('\n')}`,
+          },
+        ],
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: undo_calculation ---
+  // Demonstrates editing the event history while keeping it recoverable.
+  // KEY PATTERN: Undo/redo stacks persisted alongside the session state
+  server.tool(
+    'undo_calculation',
+    'Undo the most recent calculation(s) in the session history',
+    historyStepArgsSchema.shape,
+    /**
+     * @summary Moves the latest calculations from the history onto the redo stack.
+     * @remarks `ans` is reset to the result of the calculation that is now the latest one,
+     * or removed when the history becomes empty. Affected history resources are notified.
+     * @param args The validated tool arguments, matching `HistoryStepArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {McpError} with code `InvalidRequest` if there is nothing to undo.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async ({ steps = 1 }: HistoryStepArgs, { signal }): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+      if (sessionData.calculations.length === 0) {
+        throw new McpError(ErrorCode.InvalidRequest, 'Nothing to undo');
+      }
+
+      // Undo walks backwards, so the oldest undone calculation ends up on top of the stack
+      const undone = sessionData.calculations.splice(-steps);
+      sessionData.redoStack.push(...[...undone].reverse());
+      while (sessionData.redoStack.length > config.historySize) {
+        sessionData.redoStack.shift();
+      }
+      syncAnswer(sessionData);
+      markHistoryUpdated(sessionData, undone);
+
+      await saveSession(sessionData, signal);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Undid ${undone.length} calculation(s):\n${undone
+              .map(
+                (c) =>
+                  `${c.operation}(${formatInputs(c, sessionData.locale)}) = ${formatResult(c, sessionData.locale)} [${c.id}]`,
+              )
+              .join('\n')}`,
+          },
+        ],
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: redo_calculation ---
+  server.tool(
+    'redo_calculation',
+    'Redo calculation(s) previously removed with undo_calculation',
+    historyStepArgsSchema.shape,
+    /**
+     * @summary Moves calculations from the redo stack back into the history.
+     * @remarks Restored calculations keep their original IDs and timestamps, so links to
+     * `calculator://history/{calculationId}` work again. `ans` follows the latest entry.
+     * @param args The validated tool arguments, matching `HistoryStepArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {McpError} with code `InvalidRequest` if there is nothing to redo.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async ({ steps = 1 }: HistoryStepArgs, { signal }): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+      if (sessionData.redoStack.length === 0) {
+        throw new McpError(ErrorCode.InvalidRequest, 'Nothing to redo');
+      }
+
+      // The top of the redo stack is the most recently undone calculation; restore in order
+      const redone = sessionData.redoStack.splice(-steps).reverse();
+      sessionData.calculations.push(...redone);
+      const evicted = evictOverflow(sessionData);
+      syncAnswer(sessionData);
+      markHistoryUpdated(sessionData, [...redone, ...evicted]);
+
+      await saveSession(sessionData, signal);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Redid ${redone.length} calculation(s):\n${redone
+              .map(
+                (c) =>
+                  `${c.operation}(${formatInputs(c, sessionData.locale)}) = ${formatResult(c, sessionData.locale)} [${c.id}]`,
+              )
+              .join('\n')}`,
+          },
+        ],
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: delete_calculation ---
+  server.tool(
+    'delete_calculation',
+    'Permanently remove a single calculation from the session history',
+    deleteCalculationArgsSchema.shape,
+    /**
+     * @summary Removes one calculation, wherever it sits in the history.
+     * @remarks Unlike undo, deletion is permanent and the entry is not added to the redo stack.
+     * @param args The validated tool arguments, matching `DeleteCalculationArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {McpError} with code `InvalidParams` if the calculation ID is not in the history.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async ({ calculationId }: DeleteCalculationArgs, { signal }): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+      const index = sessionData.calculations.findIndex((c) => c.id === calculationId);
+      if (index === -1) {
+        throw new McpError(ErrorCode.InvalidParams, `Calculation ${calculationId} not found`);
+      }
+
+      const deleted = sessionData.calculations.splice(index, 1);
+      syncAnswer(sessionData);
+      markHistoryUpdated(sessionData, deleted);
+
+      await saveSession(sessionData, signal);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Deleted calculation ${calculationId}`,
+          },
+        ],
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: export_history ---
+  server.tool(
+    'export_history',
+    'Export the session history as CSV, NDJSON or JSON, e.g. to paste into a spreadsheet',
+    exportHistoryArgsSchema.shape,
+    /**
+     * @summary Serializes the session history in the requested format.
+     * @remarks Every format has the columns id, timestamp (ISO 8601), operation, expression,
+     * inputs and result, in that order. The export is returned as an embedded resource with the URI of
+     * the equivalent `calculator://history/export` resource. Archived calculations are not
+     * included.
+     * @param args The validated tool arguments, matching `ExportHistoryArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     */
+    async ({ format }: ExportHistoryArgs): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Exported ${sessionData.calculations.length} calculation(s) as ${format.toUpperCase()}`,
+          },
+          {
+            type: 'resource',
+            resource: {
+              uri: `calculator://history/export?format=${format}`,
+              mimeType: EXPORT_MIME_TYPES[format],
+              text: exportHistory(sessionData.calculations, format),
+            },
+          },
+        ],
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: import_history ---
+  // Demonstrates event sourcing: the recorded events are enough to rebuild the history.
+  server.registerTool(
+    'import_history',
+    {
+      title: 'Import History',
+      description:
+        'Replay a history exported with export_history and report results that differ; ' +
+        'with mode "replace", also rebuild the session history from it',
+      inputSchema: importHistoryArgsSchema.shape,
+      outputSchema: importHistoryResultSchema,
+    },
+    /**
+     * @summary Re-runs every calculation of an export and compares the results.
+     * @remarks Calculations are replayed through the same operation logic as the tools that
+     * recorded them, using only the data in the export. In `replace` mode the session history
+     * and redo stack are replaced by the replayed calculations, which keep their original IDs
+     * and timestamps; calculations that failed or were skipped are left out. The structured
+     * content matches `importHistoryResultSchema`. Replacing a non-empty history asks the user
+     * to confirm first, if the client supports elicitation; without confirmation the import
+     * falls back to `verify`.
+     * @param args The validated tool arguments, matching `ImportHistoryArgs`.
+     * @param extra An object containing the `requestId` and the abort `signal`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {HistoryImportError} with code `InvalidParams` if the data is not a valid export.
+     * @throws {ElicitationError} If confirmation is needed while another question is pending.
+     * @throws {OperationCancelledError} If the client cancels the request or disconnects.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async (
+      { data, format, mode: requestedMode }: ImportHistoryArgs,
+      { signal, requestId },
+    ): Promise<CallToolResult> => {
+      let sessionData = await getSessionData();
+      const report = replayHistory(parseHistoryExport(data, format), sessionId);
+
+      let mode = requestedMode;
+      const count = sessionData.calculations.length;
+      if (mode === 'replace' && count > 0) {
+        const question = QUESTION_MESSAGES[sessionData.locale].replaceHistory({ count });
+        if (!(await confirmAction(question, { requestId, signal }))) {
+          mode = 'verify';
+        }
+        // The session may have changed while the user was deciding
+        sessionData = await getSessionData();
+      }
+
+      if (mode === 'replace') {
+        const replaced = sessionData.calculations;
+        sessionData.calculations = [...report.calculations];
+        sessionData.redoStack = [];
+        const evicted = evictOverflow(sessionData);
+        syncAnswer(sessionData);
+        markHistoryUpdated(sessionData, [...replaced, ...report.calculations, ...evicted]);
+        await saveSession(sessionData, signal);
+      }
+
+      const result: ImportHistoryResult = {
+        mode,
+        total: report.matched + report.mismatched + report.failed + report.skipped,
+        matched: report.matched,
+        mismatched: report.mismatched,
+        failed: report.failed,
+        skipped: report.skipped,
+        imported: mode === 'replace' ? sessionData.calculations.length : 0,
+        differences: report.differences,
+      };
+      const details = report.differences.map((d) =>
+        d.status === 'mismatch'
+          ? `#${d.index} ${d.operation} [${d.id}]: expected ${d.expected}, got ${d.actual}`
+          : `#${d.index} ${d.operation} [${d.id}]: ${d.status === 'error' ? 'failed' : 'skipped'}: ${d.message}`,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [
+              `Replayed ${result.total} calculation(s): ${result.matched} matched, ` +
+                `${result.mismatched} differ, ${result.failed} failed, ${result.skipped} skipped`,
+              ...details,
+              ...(mode === 'replace'
+                ? [`Session history replaced with ${result.imported} calculation(s)`]
+                : []),
+              ...(mode !== requestedMode
+                ? ['Replacing the history was not confirmed; the session was not changed']
+                : []),
+            ].join('\n'),
+          },
+        ],
+        structuredContent: result,
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: demo_progress ---
+  // Demonstrates sending real-time progress updates to the client
+  // for long-running operations using the `sendNotification` callback.
+  // KEY PATTERN: Progress reporting for user experience
+  server.registerTool(
+    'demo_progress',
+    {
+      title: 'Progress Demo',
+      description: 'Demonstrate progress notifications',
+      inputSchema: demoProgressArgsSchema.shape,
+      outputSchema: demoProgressResultSchema,
+    },
+    /**
+     * @summary Demonstrates real-time progress notifications for long-running operations.
+     * @remarks This tool showcases how to use the `sendNotification` callback to provide
+     * real-time feedback during lengthy operations. It's purely educational and doesn't
+     * modify session state - no persistent storage operations are performed. Cancelling the
+     * request stops it at the next step.
+     * @param args The validated tool arguments, matching `DemoProgressArgs`.
+     * @param extra An object containing callbacks like `sendNotification` and the abort `signal`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {OperationCancelledError} If the client cancels the request or disconnects.
+     */
+    async ({ steps }: DemoProgressArgs, { sendNotification, signal }): Promise<CallToolResult> => {
+      const progressToken = randomUUID();
+      const startTime = Date.now();
+
+      for (let i = 0; i <= steps; i++) {
+        await sendNotification({
+          method: 'notifications/progress',
+          params: {
+            progressToken,
+            progress: i / steps,
+            data: `Step ${i}/${steps} completed`,
+          },
+        });
+
+        // Simulate work; cancellation interrupts the wait
+        await delay(200, signal);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Progress demonstration completed with ${steps} steps`,
+          },
+        ],
+        structuredContent: { steps, durationMs: Date.now() - startTime },
+        isError: false,
+      };
+    },
+  );
+
+  // ==========================================
+  // SESSION VARIABLE TOOLS
+  // ==========================================
+
+  /**
+   * These tools manage per-session named variables and the memory register.
+   * They are what let a stateful session carry values from one step to the next.
+   */
+
+  // --- Tool: set_variable ---
+  server.tool(
+    'set_variable',
+    'Define or update a named session variable',
+    setVariableArgsSchema.shape,
+    /**
+     * @summary Stores a named value in the session so later tools can reference it.
+     * @remarks The value may be a literal number or an expression, which is evaluated
+     * against the current session variables (e.g. `"ans * 2"`). The reserved `ans`
+     * variable is maintained automatically and cannot be assigned.
+     * @param args The validated tool arguments, matching `SetVariableArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {McpError} with code `InvalidParams` when assigning the reserved `ans` variable.
+     * @throws {ExpressionError} with code `InvalidParams` if the value expression is invalid.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async ({ name, value }: SetVariableArgs, { signal }): Promise<CallToolResult> => {
+      if (name === ANSWER_VARIABLE) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `'${ANSWER_VARIABLE}' is reserved for the latest result and cannot be assigned`,
+        );
+      }
+
+      const sessionData = await getSessionData();
+      const resolved =
+        typeof value === 'number'
+          ? value
+          : evaluateExpression(parseExpression(value), sessionData.variables);
+
+      sessionData.variables[name] = resolved;
+      await saveSession(sessionData, signal);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${name} = ${formatNumber(resolved, sessionData.locale)}`,
+          },
+        ],
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: list_variables ---
+  server.tool(
+    'list_variables',
+    'List the named variables and memory register of this session',
+    /**
+     * @summary Lists all session variables and the memory register.
+     * @remarks Read-only; the same data is also exposed as the `calculator://variables` resource.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     */
+    async (): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+      const { locale } = sessionData;
+      const entries = Object.entries(sessionData.variables);
+      const memory = formatNumber(sessionData.memory, locale);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text:
+              entries.length > 0
+                ? `Variables:\n${entries.map(([name, value]) => `${name} = ${formatNumber(value, locale)}`).join('\n')}\nMemory: ${memory}`
+                : `No variables defined.\nMemory: ${memory}`,
+          },
+        ],
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: clear_variables ---
+  server.tool(
+    'clear_variables',
+    'Remove some or all named session variables',
+    clearVariablesArgsSchema.shape,
+    /**
+     * @summary Removes the given variables, or every variable when no names are provided.
+     * @remarks Names that are not defined are ignored, so the operation is idempotent.
+     * The memory register is not affected; use the `memory` tool with `clear` for that.
+     * Clearing every variable asks the user to confirm first, if the client supports
+     * elicitation.
+     * @param args The validated tool arguments, matching `ClearVariablesArgs`.
+     * @param extra An object containing the `requestId` and the abort `signal`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {ElicitationError} If confirmation is needed while another question is pending.
+     * @throws {OperationCancelledError} If the client cancels the call while the user decides.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async ({ names }: ClearVariablesArgs, { signal, requestId }): Promise<CallToolResult> => {
+      let sessionData = await getSessionData();
+      const count = Object.keys(sessionData.variables).length;
+      if (names === undefined && count > 0) {
+        const question = QUESTION_MESSAGES[sessionData.locale].clearVariables({ count });
+        if (!(await confirmAction(question, { requestId, signal }))) {
+          return {
+            content: [{ type: 'text', text: 'Not confirmed; no variables were cleared' }],
+            isError: false,
+          };
+        }
+        // The session may have changed while the user was deciding
+        sessionData = await getSessionData();
+      }
+      const removed = (names ?? Object.keys(sessionData.variables)).filter((name) =>
+        Object.hasOwn(sessionData.variables, name),
+      );
+
+      for (const name of removed) {
+        delete sessionData.variables[name];
+      }
+      await saveSession(sessionData, signal);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text:
+              removed.length > 0
+                ? `Cleared ${removed.length} variable(s): ${removed.join(', ')}`
+                : 'No variables to clear',
+          },
+        ],
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: memory ---
+  server.tool(
+    'memory',
+    'Calculator memory register: store (MS), add (M+), subtract (M-), recall (MR), clear (MC)',
+    memoryArgsSchema.shape,
+    /**
+     * @summary Operates the session's memory register like a pocket calculator.
+     * @remarks `store`, `add` and `subtract` use the given operand, defaulting to the latest
+     * result (`ans`) just like pressing M+ after a calculation. `recall` copies the register
+     * into `ans` so the next tool can use it.
+     * @param args The validated tool arguments, matching `MemoryArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {VariableNotFoundError} If the operand (or the default `ans`) is not defined.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async ({ action, value }: MemoryArgs, { signal }): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+
+      switch (action) {
+        case 'store':
+          sessionData.memory = resolveOperand(sessionData, value ?? ANSWER_VARIABLE);
+          break;
+        case 'add':
+          sessionData.memory += resolveOperand(sessionData, value ?? ANSWER_VARIABLE);
+          break;
+        case 'subtract':
+          sessionData.memory -= resolveOperand(sessionData, value ?? ANSWER_VARIABLE);
+          break;
+        case 'recall':
+          sessionData.variables[ANSWER_VARIABLE] = sessionData.memory;
+          break;
+        case 'clear':
+          sessionData.memory = 0;
+          break;
+      }
+
+      await saveSession(sessionData, signal);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Memory ${action}: M = ${formatNumber(sessionData.memory, sessionData.locale)}`,
+          },
+        ],
+        isError: false,
+      };
+    },
+  );
+
+  // ==========================================
+  // USER-DEFINED FUNCTION TOOLS
+  // ==========================================
+
+  /**
+   * These tools let a session add its own tools at runtime. Definitions live in the session
+   * store, so they survive reconstruction on any node (see `syncFunctionTools`).
+   */
+
+  // --- Tool: define_function ---
+  server.tool(
+    'define_function',
+    'Define a function of named parameters, e.g. bmi(w, h) = w / h^2. It becomes a new tool of this session',
+    defineFunctionArgsSchema.shape,
+    /**
+     * @summary Defines (or redefines) a user function and registers it as a tool.
+     * @remarks The body uses the `evaluate_expression` syntax and may only reference its
+     * parameters and the built-in constants, so the function is pure. Redefining a function
+     * replaces its tool. Clients receive `notifications/tools/list_changed`.
+     * @param args The validated tool arguments, matching `DefineFunctionArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {ExpressionError} with code `InvalidParams` if the body cannot be parsed.
+     * @throws {FunctionDefinitionError} with code `InvalidParams` if the body references
+     * unknown names, the name belongs to a built-in tool, or the session limit is reached.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async (
+      { name, params, body, description }: DefineFunctionArgs,
+      { signal },
+    ): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+      const node = parseExpression(body);
+
+      const unknownNames = collectVariables(node).filter(
+        (variable) => !params.includes(variable) && !EXPRESSION_CONSTANTS.includes(variable),
+      );
+      if (unknownNames.length > 0) {
+        throw new FunctionDefinitionError(
+          `Function body references unknown variable(s) ${unknownNames.join(', ')}; only the parameters and the constants ${EXPRESSION_CONSTANTS.join(', ')} are allowed`,
+          { name },
+        );
+      }
+      const unknownFunctions = collectFunctions(node).filter(
+        (fn) => !EXPRESSION_FUNCTIONS.includes(fn),
+      );
+      if (unknownFunctions.length > 0) {
+        throw new FunctionDefinitionError(
+          `Function body calls unknown function(s) ${unknownFunctions.join(', ')}`,
+          { name },
+        );
+      }
+
+      const previous = sessionData.functions[name];
+      if (!previous && Object.keys(sessionData.functions).length >= MAX_USER_FUNCTIONS) {
+        throw new FunctionDefinitionError(
+          `A session can define at most ${MAX_USER_FUNCTIONS} functions; remove one first`,
+          { name },
+        );
+      }
+
+      sessionData.functions[name] = {
+        name,
+        params,
+        body: formatExpression(node),
+        ...(description !== undefined ? { description } : {}),
+        createdAt: Date.now(),
+      };
+      try {
+        syncFunctionTools(sessionData);
+      } catch {
+        // Registration only fails when the name is taken by a built-in tool
+        delete sessionData.functions[name];
+        throw new FunctionDefinitionError(`'${name}' is the name of a built-in tool`, { name });
+      }
+      await saveSession(sessionData, signal);
+
+      const definition = sessionData.functions[name];
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${previous ? 'Redefined' : 'Defined'} ${name}(${params.join(', ')}) = ${definition?.body}; call it with the '${name}' tool`,
+          },
+        ],
+        isError: false,
+      };
+    },
+  );
+
+  // --- Tool: remove_function ---
+  server.tool(
+    'remove_function',
+    'Remove a user-defined function and its tool',
+    removeFunctionArgsSchema.shape,
+    /**
+     * @summary Removes a user-defined function and unregisters its tool.
+     * @param args The validated tool arguments, matching `RemoveFunctionArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {FunctionDefinitionError} with code `InvalidParams` if no such function exists.
+     * @throws {StorageOperationFailedError} If persisting the updated session state fails.
+     */
+    async ({ name }: RemoveFunctionArgs, { signal }): Promise<CallToolResult> => {
+      const sessionData = await getSessionData();
+      if (!sessionData.functions[name]) {
+        throw new FunctionDefinitionError(`Function '${name}' is not defined`, { name });
+      }
+
+      delete sessionData.functions[name];
+      syncFunctionTools(sessionData);
+      await saveSession(sessionData, signal);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Removed function '${name}'`,
+          },
+        ],
+        isError: false,
+      };
+    },
+  );
+
+  /**
+   * @summary The contents of `calculator://history/{calculationId}` for a calculation.
+   * @remarks Shared with the session-aware prompts, which embed the same resource.
+   */
+  const historyEntryContents = (calculation: Calculation) => ({
+    uri: `calculator://history/${calculation.id}`,
+    mimeType: 'application/json',
+    text: JSON.stringify(calculation, null, 2),
+  });
+
+  /**
+   * @summary The contents of `session://info/{sessionId}`.
+   * @remarks Shared with the `summarize-session` prompt, which embeds the same resource.
+   */
+  const sessionInfoContents = (sessionData: SessionData) => ({
+    uri: `session://info/${sessionId}`,
+    mimeType: 'application/json',
+    text: JSON.stringify(
+      {
+        sessionId: sessionData.sessionId,
+        startTime: new Date(sessionData.startTime).toISOString(),
+        lastActivity: new Date(sessionData.lastActivity).toISOString(),
+        requestCount: sessionData.requestCount,
+        calculationCount: sessionData.calculations.length,
+        uptime: Date.now() - sessionData.startTime,
+        locale: sessionData.locale,
+      },
+      null,
+      2,
+    ),
+  });
+
+  // ==========================================
+  // RESOURCES
+  // ==========================================
+
+  /**
+   * Resources provide read-only access to server data.
+   * They demonstrate different URI patterns and data access methods.
+   */
+
+  // --- Resource subscriptions ---
+  // McpServer advertises `resources.subscribe` but leaves the handlers to the application.
+  // KEY PATTERN: The subscription set lives in the session store, not in this server
+  // instance, so a session reconstructed on another node keeps notifying its subscribers.
+
+  /**
+   * @summary Tells whether tools announce changes to a resource.
+   * @remarks Only these resources are notified; subscribing to any other one is rejected
+   * rather than accepted and silently never notified.
+   */
+  const isSubscribable = (uri: string): boolean => {
+    const base = uri.split('?')[0] ?? uri;
+    return (
+      base === `session://info/${sessionId}` ||
+      base === 'calculator://stats' ||
+      base === 'calculator://history' ||
+      /^calculator:\/\/history\/[^/]+$/.test(base)
+    );
+  };
+
+  /**
+   * @summary Subscribes the client to `notifications/resources/updated` for a resource.
+   * @remarks Subscribing twice to the same URI is a no-op.
+   * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+   * @throws {McpError} with code `InvalidParams` if the resource does not support
+   * subscriptions, or with code `InvalidRequest` if the session has too many subscriptions.
+   * @throws {StorageOperationFailedError} If persisting the subscription fails.
+   */
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, { signal }) => {
+    const { uri } = request.params;
+    if (!isSubscribable(uri)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Resource ${uri} does not support subscriptions. Subscribable resources: ` +
+          `session://info/${sessionId}, calculator://stats, calculator://history and ` +
+          'calculator://history/{calculationId}',
+      );
+    }
+
+    const sessionData = await getSessionData();
+    if (!sessionData.subscriptions.includes(uri)) {
+      if (sessionData.subscriptions.length >= MAX_SUBSCRIPTIONS) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Too many subscriptions (maximum ${MAX_SUBSCRIPTIONS}); unsubscribe from some first`,
+        );
+      }
+      sessionData.subscriptions.push(uri);
+      await saveSession(sessionData, signal);
+    }
+    return {};
+  });
+
+  /**
+   * @summary Cancels a subscription made with `resources/subscribe`.
+   * @remarks Unsubscribing from a resource that has no subscription is a no-op.
+   * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+   * @throws {StorageOperationFailedError} If persisting the change fails.
+   */
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request, { signal }) => {
+    const sessionData = await getSessionData();
+    const index = sessionData.subscriptions.indexOf(request.params.uri);
+    if (index !== -1) {
+      sessionData.subscriptions.splice(index, 1);
+      await saveSession(sessionData, signal);
+    }
+    return {};
+  });
+
+  // --- Resource: calculator-constants ---
+  // Static resource demonstrating simple data exposure
+  server.resource(
+    'calculator-constants',
+    'calculator://constants',
+    {
+      title: 'Calculator Constants',
+      description: 'Mathematical constants',
+      mimeType: 'application/json',
+    },
+    /**
+     * @summary Provides access to common mathematical constants.
+     * @remarks This resource returns a JSON object containing mathematical constants
+     * like π, e, √2, etc. It's a stateless resource that doesn't require session data.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     */
+    async (): Promise<ReadResourceResult> => {
+      return {
+        contents: [
+          {
+            uri: 'calculator://constants',
+            mimeType: 'application/json',
+            text: JSON.stringify(
+              {
+                pi: Math.PI,
+                e: Math.E,
+                sqrt2: Math.SQRT2,
+                ln2: Math.LN2,
+                ln10: Math.LN10,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  // --- Resource: calculation-history-page ---
+  // Paginated, filterable listing of the session's history
   server.resource(
-    'calculator-constants',
-    'calculator://constants',
+    'calculation-history-page',
+    new ResourceTemplate(
+      new QueryUriTemplate('calculator://history', [
+        'cursor',
+        'operation',
+        'since',
+        'until',
+        'limit',
+      ]),
+      {
+        list: async () => ({
+          resources: [
+            {
+              uri: 'calculator://history',
+              name: 'history',
+              title: 'Calculation History',
+              description: 'The first page of the calculation history, oldest first',
+              mimeType: 'application/json',
+            },
+          ],
+        }),
+      },
+    ),
     {
-      title: 'Calculator Constants',
-      description: 'Mathematical constants',
+      title: 'Calculation History Page',
+      description:
+        'One page of the calculation history, oldest first. Query parameters: operation, ' +
+        'since and until (epoch milliseconds or ISO 8601), limit (1-100) and cursor (the ' +
+        'nextCursor of the previous page)',
       mimeType: 'application/json',
     },
     /**
-     * @summary Provides access to common mathematical constants.
-     * @remarks This resource returns a JSON object containing mathematical constants
-     * like π, e, √2, etc. It's a stateless resource that doesn't require session data.
+     * @summary Lists the session's calculations, one page at a time.
+     * @remarks The filters and the page size are carried in the URI of the next page, so a
+     * client only has to follow `next` until it is absent. Archived calculations are not
+     * listed; they can still be read by ID.
+     * @param uri The resource URI.
+     * @param variables The query parameters of the URI.
      * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {HistoryQueryError} with code `InvalidParams` if a parameter or the cursor is
+     * malformed.
      */
-    async (): Promise<ReadResourceResult> => {
+    async (uri: URL, variables): Promise<ReadResourceResult> => {
+      const query = parseHistoryQuery(variables);
+      const sessionData = await getSessionData();
+      const page = pageHistory(sessionData.calculations, query);
+
       return {
         contents: [
           {
-            uri: 'calculator://constants',
+            uri: uri.href,
             mimeType: 'application/json',
             text: JSON.stringify(
               {
-                pi: Math.PI,
-                e: Math.E,
-                sqrt2: Math.SQRT2,
-                ln2: Math.LN2,
-                ln10: Math.LN10,
+                ...page,
+                ...(page.nextCursor !== undefined
+                  ? { next: historyPageUri({ ...query, cursor: page.nextCursor }) }
+                  : {}),
               },
               null,
               2,
@@ -1165,9 +3626,80 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
     },
   );
 
+  // --- Resource: calculation-history-export ---
+  // The whole history as a file. Registered before `calculation-history`, whose
+  // `{calculationId}` would otherwise match `export`.
+  server.resource(
+    'calculation-history-export',
+    new ResourceTemplate(new QueryUriTemplate('calculator://history/export', ['format']), {
+      list: async () => ({
+        resources: Object.entries(EXPORT_MIME_TYPES).map(([format, mimeType]) => ({
+          uri: `calculator://history/export?format=${format}`,
+          name: `history.${format}`,
+          title: `Calculation History (${format.toUpperCase()})`,
+          description: `The calculation history exported as ${format.toUpperCase()}`,
+          mimeType,
+        })),
+      }),
+    }),
+    {
+      title: 'Calculation History Export',
+      description:
+        'The calculation history as CSV, NDJSON or JSON (format query parameter, default csv)',
+      mimeType: 'text/csv',
+    },
+    /**
+     * @summary Provides the session history as a CSV, NDJSON or JSON file.
+     * @remarks Same content as the `export_history` tool.
+     * @param uri The resource URI.
+     * @param variables The query parameters of the URI, containing the optional `format`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {HistoryQueryError} with code `InvalidParams` if the format is not supported.
+     */
+    async (uri: URL, variables): Promise<ReadResourceResult> => {
+      const format = parseExportQuery(variables);
+      const sessionData = await getSessionData();
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: EXPORT_MIME_TYPES[format],
+            text: exportHistory(sessionData.calculations, format),
+          },
+        ],
+      };
+    },
+  );
+
   // --- Resource: calculation-history ---
   // Dynamic resource with parameterized URI demonstrating data lookup
-  const historyTemplate = 'calculator://history/{calculationId}';
+  // WHY: A plain string would register a static resource matching only the literal
+  // `{calculationId}` URI; the template is what makes real calculation IDs resolvable.
+  const historyTemplate = new ResourceTemplate('calculator://history/{calculationId}', {
+    complete: {
+      // Most recent first, read from the session store like every other session data access
+      calculationId: async (value) => {
+        const sessionData = await getSessionData();
+        return sessionData.calculations
+          .map((c) => c.id)
+          .filter((id) => id.startsWith(value))
+          .reverse();
+      },
+    },
+    list: async () => {
+      const sessionData = await getSessionData();
+      return {
+        resources: sessionData.calculations.map((c) => ({
+          uri: `calculator://history/${c.id}`,
+          name: c.id,
+          title: `${c.operation}(${formatInputs(c)}) = ${formatResult(c)}`,
+          description: `Calculated at ${new Date(c.timestamp).toISOString()}`,
+          mimeType: 'application/json',
+        })),
+      };
+    },
+  });
 
   server.resource(
     'calculation-history',
@@ -1180,30 +3712,25 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
     /**
      * @summary Retrieves a specific calculation from the session's history.
      * @remarks This resource demonstrates parameterized URIs, extracting the calculation ID
-     * from the URI path and looking it up in the session's calculation history.
-     * @param uri The resource URI containing the calculation ID parameter.
+     * from the URI path and looking it up in the session's calculation history. Calculations
+     * evicted from the history are looked up in the archive tier, when one is configured.
+     * @param variables The template variables, containing the `calculationId`.
      * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
      * @throws {McpError} with code `InvalidRequest` if the calculation ID is not found.
      */
-    async (uri: URL | string): Promise<ReadResourceResult> => {
-      // Extract calculationId from the URI
-      const uriStr = typeof uri === 'string' ? uri : uri.toString();
-      const calculationId = uriStr.split('/').pop();
+    async (_uri: URL, variables): Promise<ReadResourceResult> => {
+      const calculationId = String(variables['calculationId']);
       const sessionData = await getSessionData();
 
-      const calculation = sessionData.calculations.find((c) => c.id === calculationId);
+      const calculation =
+        sessionData.calculations.find((c) => c.id === calculationId) ??
+        (await historyArchive?.get(sessionId, calculationId));
       if (!calculation) {
         throw new McpError(ErrorCode.InvalidRequest, `Calculation ${calculationId} not found`);
       }
 
       return {
-        contents: [
-          {
-            uri: `calculator://history/${calculationId}`,
-            mimeType: 'application/json',
-            text: JSON.stringify(calculation, null, 2),
-          },
-        ],
+        contents: [historyEntryContents(calculation)],
       };
     },
   );
@@ -1255,6 +3782,53 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
     },
   );
 
+  // --- Resource: session-stats ---
+  // Session-specific statistics, complementing the global Prometheus-derived stats above
+  server.resource(
+    'session-stats',
+    'calculator://stats/session',
+    {
+      title: 'Session Statistics',
+      description: "Statistics over the results of the current session's calculations",
+      mimeType: 'application/json',
+    },
+    /**
+     * @summary Provides statistics over the current session's calculation history.
+     * @remarks Unlike `calculator://stats`, which aggregates Prometheus counters across all
+     * sessions, this summarizes the `result` values of this session only. `summary` is `null`
+     * while the history holds no numeric results.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     */
+    async (): Promise<ReadResourceResult> => {
+      const sessionData = await getSessionData();
+      const values = historyValues(sessionData.calculations);
+      const operationBreakdown: Record<string, number> = {};
+      for (const calculation of sessionData.calculations) {
+        operationBreakdown[calculation.operation] =
+          (operationBreakdown[calculation.operation] ?? 0) + 1;
+      }
+
+      return {
+        contents: [
+          {
+            uri: 'calculator://stats/session',
+            mimeType: 'application/json',
+            text: JSON.stringify(
+              {
+                sessionId,
+                calculationCount: sessionData.calculations.length,
+                operationBreakdown,
+                summary: values.length > 0 ? summarize(values) : null,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
   // --- Resource: session-info ---
   // Session-specific resource demonstrating access to current session state
   server.resource(
@@ -1274,19 +3848,39 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
     async (): Promise<ReadResourceResult> => {
       const sessionData = await getSessionData();
 
+      return {
+        contents: [sessionInfoContents(sessionData)],
+      };
+    },
+  );
+
+  // --- Resource: session-variables ---
+  // Session-specific resource exposing the variables and memory register
+  server.resource(
+    'session-variables',
+    'calculator://variables',
+    {
+      title: 'Session Variables',
+      description: 'Named variables and memory register of the current session',
+      mimeType: 'application/json',
+    },
+    /**
+     * @summary Provides the session's named variables and memory register.
+     * @remarks Mirrors the `list_variables` tool for clients that prefer reading resources.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     */
+    async (): Promise<ReadResourceResult> => {
+      const sessionData = await getSessionData();
+
       return {
         contents: [
           {
-            uri: `session://info/${sessionId}`,
+            uri: 'calculator://variables',
             mimeType: 'application/json',
             text: JSON.stringify(
               {
-                sessionId: sessionData.sessionId,
-                startTime: new Date(sessionData.startTime).toISOString(),
-                lastActivity: new Date(sessionData.lastActivity).toISOString(),
-                requestCount: sessionData.requestCount,
-                calculationCount: sessionData.calculations.length,
-                uptime: Date.now() - sessionData.startTime,
+                variables: sessionData.variables,
+                memory: sessionData.memory,
               },
               null,
               2,
@@ -1298,20 +3892,19 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
   );
 
   // --- Resource: formulas-library ---
-  // Educational resource demonstrating static educational content
+  // Educational resource backed by the executable formula registry
   server.resource(
     'formulas-library',
     'formulas://library',
     {
       title: 'Formula Library',
-      description: 'Mathematical formulas',
+      description: 'Mathematical formulas that can be computed with the evaluate_formula tool',
       mimeType: 'application/json',
     },
     /**
-     * @summary Provides access to a library of mathematical formulas.
-     * @remarks This educational resource demonstrates static content serving,
-     * providing a collection of mathematical formulas and their descriptions.
-     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @summary Provides access to the library of mathematical formulas.
+     * @remarks Each entry describes its variables as a JSON Schema object and lists the
+     * expressions it computes, so agents can call `evaluate_formula` without guessing.
      */
     async (): Promise<ReadResourceResult> => {
       return {
@@ -1320,26 +3913,9 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
             uri: 'formulas://library',
             mimeType: 'application/json',
             text: JSON.stringify(
-              {
-                quadratic: {
-                  formula: 'ax² + bx + c = 0',
-                  solution: 'x = (-b ± √(b²-4ac)) / 2a',
-                },
-                pythagorean: {
-                  formula: 'a² + b² = c²',
-                  description: 'For right triangles',
-                },
-                compound_interest: {
-                  formula: 'A = P(1 + r/n)^(nt)',
-                  variables: {
-                    A: 'Final amount',
-                    P: 'Principal',
-                    r: 'Annual interest rate',
-                    n: 'Compounding frequency',
-                    t: 'Time in years',
-                  },
-                },
-              },
+              Object.fromEntries(
+                FORMULA_NAMES.map((name) => [name, describeFormula(getFormula(name))]),
+              ),
               null,
               2,
             ),
@@ -1349,6 +3925,97 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
     },
   );
 
+  // --- Resource: formula ---
+  // Resource template exposing each formula of the library individually
+  server.resource(
+    'formula',
+    new ResourceTemplate('formulas://library/{name}', {
+      list: async () => ({
+        resources: FORMULA_NAMES.map((name) => ({
+          uri: `formulas://library/${name}`,
+          name,
+          title: getFormula(name).title,
+          description: getFormula(name).description,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    {
+      title: 'Formula',
+      description: 'A single formula of the library, with its variable schema',
+      mimeType: 'application/json',
+    },
+    /**
+     * @summary Provides a single formula of the library.
+     * @param uri The resource URI.
+     * @param variables The template variables, containing the formula `name`.
+     * @throws {FormulaError} with code `InvalidParams` if the formula does not exist.
+     */
+    async (uri: URL, variables): Promise<ReadResourceResult> => {
+      const definition = getFormula(String(variables['name']));
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(describeFormula(definition), null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  // --- Resource: plot ---
+  // Resource template listing the charts drawn in this session
+  server.resource(
+    'plot',
+    new ResourceTemplate('calculator://plots/{plotId}', {
+      list: async () => {
+        const sessionData = await getSessionData();
+        return {
+          resources: Object.values(sessionData.plots).map((plot) => ({
+            uri: `calculator://plots/${plot.id}`,
+            name: `plot-${plot.id}`,
+            title: plot.title,
+            description: `${plot.expressions.join(', ')} for ${plot.variable} from ${plot.from} to ${plot.to}`,
+            mimeType: 'image/svg+xml',
+          })),
+        };
+      },
+    }),
+    {
+      title: 'Plot',
+      description: 'A chart drawn by plot_function, as SVG',
+      mimeType: 'image/svg+xml',
+    },
+    /**
+     * @summary Provides a chart drawn by `plot_function` in this session.
+     * @param uri The resource URI.
+     * @param variables The template variables, containing the `plotId`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     * @throws {McpError} with code `InvalidRequest` if the plot does not exist (any more).
+     */
+    async (uri: URL, variables): Promise<ReadResourceResult> => {
+      const sessionData = await getSessionData();
+      const plotId = String(variables['plotId']);
+      const plot = Object.hasOwn(sessionData.plots, plotId) ? sessionData.plots[plotId] : undefined;
+      if (!plot) {
+        throw new McpError(ErrorCode.InvalidRequest, `Plot ${plotId} not found`);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'image/svg+xml',
+            text: plot.svg,
+          },
+        ],
+      };
+    },
+  );
+
   // ==========================================
   // PROMPTS
   // ==========================================
@@ -1359,35 +4026,49 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
    * input for complex operations.
    */
 
+  /**
+   * @summary Builds a completion callback that suggests the options starting with the
+   * text typed so far, ignoring case.
+   */
+  const completeFrom =
+    (options: readonly string[]) =>
+    (value: string | undefined): string[] => {
+      const prefix = (value ?? '').trim().toLowerCase();
+      return options.filter((option) => option.toLowerCase().startsWith(prefix));
+    };
+
   // --- Prompt: explain-calculation ---
   server.registerPrompt(
     'explain-calculation',
     {
       title: 'Explain Calculation',
       description: 'Explain how to perform a calculation step by step',
-      argsSchema: explainCalculationArgsSchema.shape,
+      argsSchema: {
+        ...explainCalculationArgsSchema.shape,
+        level: completable(
+          explainCalculationArgsSchema.shape.level,
+          completeFrom(EXPLANATION_LEVELS),
+        ),
+      },
     },
     /**
      * @summary Generates prompts for step-by-step calculation explanations.
      * @remarks This prompt template helps generate educational content for explaining
-     * mathematical operations at different complexity levels. It's stateless and educational.
+     * mathematical operations at different complexity levels. It only reads the session's
+     * locale, which sets the language of the prompt.
      * @param args The validated prompt arguments, matching `ExplainCalculationArgs`.
      * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
      */
     async ({ operation, level }: ExplainCalculationArgs): Promise<GetPromptResult> => {
-      const explanationLevel = level || 'basic';
+      const sessionData = await getSessionData();
+      const { description, text } = PROMPT_MESSAGES[sessionData.locale].explainCalculation({
+        operation,
+        level,
+      });
 
       return {
-        description: `Step-by-step explanation of ${operation} at ${explanationLevel} level`,
-        messages: [
-          {
-            role: 'user',
-            content: {
-              type: 'text',
-              text: `Please explain how to ${operation} step by step at a ${explanationLevel} level. Include examples and common mistakes to avoid.`,
-            },
-          },
-        ],
+        description,
+        messages: [{ role: 'user', content: { type: 'text', text } }],
       };
     },
   );
@@ -1398,7 +4079,14 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
     {
       title: 'Generate Practice Problems',
       description: 'Generate math practice problems',
-      argsSchema: generateProblemsArgsSchema.shape,
+      argsSchema: {
+        ...generateProblemsArgsSchema.shape,
+        topic: completable(generateProblemsArgsSchema.shape.topic, completeFrom(PROBLEM_TOPICS)),
+        difficulty: completable(
+          generateProblemsArgsSchema.shape.difficulty,
+          completeFrom(PROBLEM_DIFFICULTIES),
+        ),
+      },
     },
     /**
      * @summary Generates prompts for creating practice math problems.
@@ -1408,17 +4096,16 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
      * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
      */
     async ({ topic, difficulty, count }: GenerateProblemsArgs): Promise<GetPromptResult> => {
+      const sessionData = await getSessionData();
+      const { description, text } = PROMPT_MESSAGES[sessionData.locale].generateProblems({
+        topic,
+        difficulty,
+        count: Number(count),
+      });
+
       return {
-        description: `Generate ${count} ${difficulty} ${topic} problems`,
-        messages: [
-          {
-            role: 'user',
-            content: {
-              type: 'text',
-              text: `Generate ${count} ${difficulty}-level practice problems for ${topic}. Include solutions and explanations.`,
-            },
-          },
-        ],
+        description,
+        messages: [{ role: 'user', content: { type: 'text', text } }],
       };
     },
   );
@@ -1439,17 +4126,15 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
      * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
      */
     async ({ problem, showWork }: SolveMathProblemArgs): Promise<GetPromptResult> => {
+      const sessionData = await getSessionData();
+      const { description, text } = PROMPT_MESSAGES[sessionData.locale].solveMathProblem({
+        problem,
+        showWork: showWork === 'true',
+      });
+
       return {
-        description: `Solve: ${problem}`,
-        messages: [
-          {
-            role: 'user',
-            content: {
-              type: 'text',
-              text: `Solve this problem: ${problem}. ${showWork === 'true' ? 'Show all work and explain each step.' : 'Provide the solution.'}`,
-            },
-          },
-        ],
+        description,
+        messages: [{ role: 'user', content: { type: 'text', text } }],
       };
     },
   );
@@ -1460,7 +4145,11 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
     {
       title: 'Explain Formula',
       description: 'Detailed formula explanation',
-      argsSchema: explainFormulaArgsSchema.shape,
+      argsSchema: {
+        ...explainFormulaArgsSchema.shape,
+        // Any formula can be explained; the library's formulas are suggested
+        formula: completable(explainFormulaArgsSchema.shape.formula, completeFrom(FORMULA_NAMES)),
+      },
     },
     /**
      * @summary Generates prompts for detailed mathematical formula explanations.
@@ -1470,17 +4159,15 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
      * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
      */
     async ({ formula, context }: ExplainFormulaArgs): Promise<GetPromptResult> => {
+      const sessionData = await getSessionData();
+      const { description, text } = PROMPT_MESSAGES[sessionData.locale].explainFormula({
+        formula,
+        context,
+      });
+
       return {
-        description: `Explain the formula: ${formula}`,
-        messages: [
-          {
-            role: 'user',
-            content: {
-              type: 'text',
-              text: `Explain the formula "${formula}"${context ? ` in the context of ${context}` : ''}. Include what each variable represents and when to use this formula.`,
-            },
-          },
-        ],
+        description,
+        messages: [{ role: 'user', content: { type: 'text', text } }],
       };
     },
   );
@@ -1501,21 +4188,128 @@ async function createMCPServer(sessionId: string): Promise<McpServer> {
      * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
      */
     async ({ query }: CalculatorAssistantArgs): Promise<GetPromptResult> => {
+      const sessionData = await getSessionData();
+      const { description, text } = PROMPT_MESSAGES[sessionData.locale].calculatorAssistant({
+        query,
+      });
+
+      return {
+        description,
+        messages: [{ role: 'user', content: { type: 'text', text } }],
+      };
+    },
+  );
+
+  // --- Session-aware prompts ---
+  // KEY PATTERN: Prompts can read session state too. The calculations are embedded as
+  // `calculator://history/{calculationId}` resources, so the client gets the same data it
+  // would get by reading those resources, and can show or cache it accordingly.
+
+  /**
+   * @summary Selects the calculations a session-aware prompt embeds.
+   * @returns The selection, oldest first, and the operations it was filtered by.
+   */
+  const promptCalculations = (
+    sessionData: SessionData,
+    { last, operations }: SessionPromptArgs,
+  ): { calculations: Calculation[]; operations: string[] } => {
+    const selected = (operations ?? '')
+      .split(',')
+      .map((operation) => operation.trim())
+      .filter((operation) => operation !== '');
+    return {
+      calculations: recentCalculations(
+        sessionData.calculations,
+        last !== undefined ? Number(last) : 10,
+        selected,
+      ),
+      operations: selected,
+    };
+  };
+
+  // --- Prompt: review-my-calculations ---
+  server.registerPrompt(
+    'review-my-calculations',
+    {
+      title: 'Review My Calculations',
+      description: "Ask for a review of the session's most recent calculations",
+      argsSchema: sessionPromptArgsSchema.shape,
+    },
+    /**
+     * @summary Generates a prompt to review the session's most recent calculations.
+     * @remarks Each calculation is embedded as a `calculator://history/{calculationId}`
+     * resource. Without matching calculations, the prompt (in the session's locale) says so
+     * instead.
+     * @param args The validated prompt arguments, matching `SessionPromptArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     */
+    async (args: SessionPromptArgs): Promise<GetPromptResult> => {
+      const sessionData = await getSessionData();
+      const { calculations, operations } = promptCalculations(sessionData, args);
+      const { description, text } = PROMPT_MESSAGES[sessionData.locale].reviewCalculations({
+        count: calculations.length,
+        operations,
+      });
+
+      return {
+        description,
+        messages: [
+          { role: 'user', content: { type: 'text', text } },
+          ...calculations.map((calculation) => ({
+            role: 'user' as const,
+            content: { type: 'resource' as const, resource: historyEntryContents(calculation) },
+          })),
+        ],
+      };
+    },
+  );
+
+  // --- Prompt: summarize-session ---
+  server.registerPrompt(
+    'summarize-session',
+    {
+      title: 'Summarize Session',
+      description: 'Ask for a summary of this calculator session',
+      argsSchema: sessionPromptArgsSchema.shape,
+    },
+    /**
+     * @summary Generates a prompt to summarize the session.
+     * @remarks Embeds `session://info/{sessionId}` followed by the most recent calculations,
+     * each as a `calculator://history/{calculationId}` resource.
+     * @param args The validated prompt arguments, matching `SessionPromptArgs`.
+     * @throws {SessionNotFoundError} If the session ID associated with the request is invalid.
+     */
+    async (args: SessionPromptArgs): Promise<GetPromptResult> => {
+      const sessionData = await getSessionData();
+      const { calculations, operations } = promptCalculations(sessionData, args);
+      const { description, text } = PROMPT_MESSAGES[sessionData.locale].summarizeSession({
+        count: calculations.length,
+        operations,
+      });
+
       return {
-        description: 'Calculator assistance request',
+        description,
         messages: [
+          { role: 'user', content: { type: 'text', text } },
           {
             role: 'user',
-            content: {
-              type: 'text',
-              text: `I need help with this calculation: ${query}. Please provide step-by-step guidance.`,
-            },
+            content: { type: 'resource', resource: sessionInfoContents(sessionData) },
           },
+          ...calculations.map((calculation) => ({
+            role: 'user' as const,
+            content: { type: 'resource' as const, resource: historyEntryContents(calculation) },
+          })),
         ],
       };
     },
   );
 
+  // Register the functions of an existing session, e.g. when reconstructing it on this node
+  const existingSession = await sessionStore.get(sessionId);
+  if (existingSession) {
+    syncFunctionTools(existingSession);
+  }
+
   return server;
 }
 
@@ -1538,6 +4332,7 @@ async function createApp(): Promise<{ app: express.Application; eventStore: Even
   const stores = await initializeStores();
   sessionStore = stores.sessionStore;
   eventStore = stores.eventStore;
+  historyArchive = stores.historyArchive;
 
   // --- PROTOCOL ERROR FLOW ---
   // This sequence outlines how an incoming request is processed and how errors are handled at each stage.
@@ -1609,7 +4404,7 @@ async function createApp(): Promise<{ app: express.Application; eventStore: Even
         /**
          * Redis cleanup: Remove orphaned transport/server instances.
          * WHY: Redis handles session expiration via TTL, but we need to clean up
-         * local instances when sessions expire.
+         * local instances when sessions expire, and a file archive has no TTL.
          */
         for (const [sessionId, instances] of sessionInstances) {
           const session = await sessionStore.get(sessionId);
@@ -1617,15 +4412,18 @@ async function createApp(): Promise<{ app: express.Application; eventStore: Even
             void instances.transport.close();
             void instances.server.close();
             sessionInstances.delete(sessionId);
+            await historyArchive?.delete(sessionId);
           }
         }
       } else {
         /**
-         * In-memory cleanup: Both session data and local instances.
+         * In-memory cleanup: Session data, archived history and local instances.
          * WHY: In-memory storage doesn't have automatic expiration.
          */
         const inMemoryStore = sessionStore as InMemorySessionStore;
-        inMemoryStore.cleanup();
+        for (const sessionId of inMemoryStore.cleanup()) {
+          await historyArchive?.delete(sessionId);
+        }
 
         for (const [sessionId, instances] of sessionInstances) {
           const session = await sessionStore.get(sessionId);
@@ -1692,6 +4490,7 @@ async function createApp(): Promise<{ app: express.Application; eventStore: Even
           await instances.server.close();
           sessionInstances.delete(closedSessionId);
           await sessionStore.delete(closedSessionId);
+          await historyArchive?.delete(closedSessionId);
           activeSessionsGauge.dec();
           console.warn(`Session closed: ${closedSessionId}`);
         }
@@ -1719,6 +4518,82 @@ async function createApp(): Promise<{ app: express.Application; eventStore: Even
     return instances;
   }
 
+  /**
+   * @summary Stores the client's answer to the session's pending elicitation, if the POST body
+   * contains it.
+   * @remarks The tool call that asked may be running on another node, so the answer is handed
+   * over through the session store, where that call is polling for it (see `elicit` in
+   * `createMCPServer`). The SDK never sees the answer: it did not send the question and
+   * would reject the response as unknown.
+   * @param sessionData The session the body was sent to, if it exists.
+   * @param body The parsed JSON-RPC message or batch.
+   * @returns The rest of the body for the transport, or `undefined` if nothing is left.
+   */
+  async function takeElicitationAnswer(
+    sessionData: SessionData | null,
+    body: unknown,
+  ): Promise<unknown> {
+    const pending = sessionData?.pendingElicitation;
+    if (!sessionData || !pending) {
+      return body;
+    }
+    const messages: unknown[] = Array.isArray(body) ? body : [body];
+    const response = messages.find(
+      (message) =>
+        (isJSONRPCResponse(message) || isJSONRPCError(message)) && message.id === pending.requestId,
+    );
+    if (response === undefined) {
+      return body;
+    }
+
+    const answer = isJSONRPCResponse(response)
+      ? ElicitResultSchema.safeParse(response.result)
+      : undefined;
+    // An error or a malformed result means the client could not ask the user
+    pending.answer = answer?.success ? answer.data : { action: 'cancel' };
+    await sessionStore.set(sessionData.sessionId, sessionData);
+
+    const rest = messages.filter((message) => message !== response);
+    return rest.length > 0 ? rest : undefined;
+  }
+
+  /**
+   * @summary Cancels the requests of a POST body if the client disconnects before they finish.
+   * @remarks The SDK only aborts a handler's signal when it receives `notifications/cancelled`;
+   * a dropped connection leaves the handler running. Feeding the transport a synthetic
+   * cancellation for every unfinished request reuses exactly that path, so tools stop work
+   * and skip persisting just as if the client had cancelled explicitly.
+   * @param transport The transport handling the body.
+   * @param body The parsed JSON-RPC message or batch.
+   * @param res The HTTP response whose premature close signals the disconnect.
+   */
+  function cancelOnDisconnect(
+    transport: StreamableHTTPServerTransport,
+    body: unknown,
+    res: Response,
+  ): void {
+    const requestIds = (Array.isArray(body) ? body : [body])
+      .filter(isJSONRPCRequest)
+      .map((request) => request.id);
+    if (requestIds.length === 0) {
+      return;
+    }
+
+    res.on('close', () => {
+      // A response that was sent completely means every request already has its answer
+      if (res.writableFinished) {
+        return;
+      }
+      for (const requestId of requestIds) {
+        transport.onmessage?.({
+          jsonrpc: '2.0',
+          method: 'notifications/cancelled',
+          params: { requestId, reason: 'Client disconnected' },
+        });
+      }
+    });
+  }
+
   // ==========================================
   // MCP ENDPOINTS
   // ==========================================
@@ -1732,17 +4607,28 @@ async function createApp(): Promise<{ app: express.Application; eventStore: Even
     const sessionId = req.headers['mcp-session-id'] as string | undefined;
 
     let transport: StreamableHTTPServerTransport;
+    let locale: Locale = DEFAULT_LOCALE;
+    let body: unknown = req.body;
 
     if (sessionId) {
       /**
        * EXISTING SESSION FLOW
        * 1. Update activity tracking
-       * 2. Get or reconstruct MCP instances using helper
-       * 3. Handle the request
+       * 2. Hand over answers to pending elicitations
+       * 3. Get or reconstruct MCP instances using helper
+       * 4. Handle the request
        */
 
       // Update activity tracking for session timeout management
-      await sessionStore.updateActivity(sessionId);
+      const sessionData = await sessionStore.updateActivity(sessionId);
+      locale = sessionData?.locale ?? DEFAULT_LOCALE;
+
+      // Answers to elicitations are routed through the session store, not the transport
+      body = await takeElicitationAnswer(sessionData, body);
+      if (body === undefined) {
+        res.status(202).end();
+        return;
+      }
 
       const instances = await getOrCreateInstances(sessionId);
       transport = instances.transport;
@@ -1792,12 +4678,22 @@ async function createApp(): Promise<{ app: express.Application; eventStore: Even
             await instances.server.close();
             sessionInstances.delete(closedSessionId);
             await sessionStore.delete(closedSessionId);
+            await historyArchive?.delete(closedSessionId);
             activeSessionsGauge.dec();
             console.warn(`Session closed: ${closedSessionId}`);
           }
         },
       });
 
+      /**
+       * The locale comes from a `locale` the client put in its client info, or else from the
+       * Accept-Language header of the initialize request.
+       */
+      const clientLocale = (req.body.params.clientInfo as { locale?: unknown }).locale;
+      locale =
+        (typeof clientLocale === 'string' ? matchLocale(clientLocale) : undefined) ??
+        negotiateLocale(req.headers['accept-language']);
+
       // Create session data immediately
       const sessionData: SessionData = {
         sessionId: newSessionId,
@@ -1807,6 +4703,15 @@ async function createApp(): Promise<{ app: express.Application; eventStore: Even
         lastActivity: Date.now(),
         requestCount: 1,
         calculations: [],
+        redoStack: [],
+        variables: {},
+        memory: 0,
+        precision: { ...DEFAULT_PRECISION },
+        functions: {},
+        plots: {},
+        subscriptions: [],
+        locale,
+        pendingElicitation: null,
       };
 
       // Store session in persistent storage BEFORE creating server
@@ -1834,8 +4739,10 @@ async function createApp(): Promise<{ app: express.Application; eventStore: Even
       );
     }
 
-    // Delegate request handling to the MCP SDK transport
-    await transport.handleRequest(req, res, req.body);
+    // Delegate request handling to the MCP SDK transport, in the session's locale so that
+    // errors raised while handling it are translated
+    cancelOnDisconnect(transport, body, res);
+    await localeContext.run(locale, () => transport.handleRequest(req, res, body));
   });
 
   /**
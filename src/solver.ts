@@ -0,0 +1,509 @@
+/**
+ * @file src/solver.ts
+ * @description Equation solving for the `solve_equation` tool. An equation in one variable is
+ * rewritten as `f(x) = 0` and then solved by the most precise applicable method:
+ * - linear and quadratic polynomials in closed form (including complex roots),
+ * - higher-degree polynomials numerically, finding all roots at once (Durand-Kerner),
+ * - any other equation numerically by bisection (given a bracketing interval) or Newton's
+ *   method (given or defaulting to an initial guess).
+ *
+ * WHY: The formula library advertises the quadratic formula, but until now nothing could
+ * actually compute it. Reusing the expression engine means equations accept exactly the same
+ * syntax, functions and constants as `evaluate_expression`.
+ *
+ * Key Error Handling Ideas:
+ * - Malformed equations throw an `ExpressionError`; numeric methods that cannot find a root
+ *   (no sign change, no convergence within the iteration cap) throw an `ArithmeticError`.
+ *   Both map to `InvalidParams`. "No solution" is a valid answer, not an error.
+ */
+
+import { ArithmeticError, ExpressionError } from './types.js';
+import type { ComplexNumber, EquationSolution, SolveEquationArgs } from './types.js';
+import {
+  parseExpression,
+  evaluateExpression,
+  formatExpression,
+  collectVariables,
+  isNameError,
+} from './expression.js';
+import type { ExpressionNode, ExpressionScope } from './expression.js';
+
+/** Stopping tolerance used when the caller does not specify one. */
+export const DEFAULT_TOLERANCE = 1e-10;
+
+/** Iteration cap used when the caller does not specify one. */
+export const DEFAULT_MAX_ITERATIONS = 500;
+
+/**
+ * Polynomials above this degree are solved like any other equation, since finding all roots
+ * of very high degree polynomials numerically is ill-conditioned.
+ */
+const MAX_POLYNOMIAL_DEGREE = 20;
+
+/** Half-width of the range scanned for a sign change when Newton's method fails. */
+const SCAN_RANGE = 100;
+
+/** How the solution was found. */
+export type SolveMethod =
+  | 'constant'
+  | 'linear'
+  | 'quadratic'
+  | 'polynomial'
+  | 'bisection'
+  | 'newton';
+
+/**
+ * A solved equation together with how it was solved.
+ * `iterations` is only set by the numeric methods.
+ */
+export interface SolveOutcome extends EquationSolution {
+  method: SolveMethod;
+  degree?: number;
+  iterations?: number;
+}
+
+/** Options of the numeric methods, with defaults already applied. */
+export interface SolveOptions {
+  method: NonNullable<SolveEquationArgs['method']>;
+  interval?: [number, number];
+  initialGuess?: number;
+  tolerance: number;
+  maxIterations: number;
+}
+
+// =================================================================
+// PARSING
+// =================================================================
+
+/** Both sides of a parsed equation. */
+export interface Equation {
+  lhs: ExpressionNode;
+  rhs: ExpressionNode;
+}
+
+/**
+ * Parses `lhs = rhs`. Without an `=`, the whole text is taken as the left-hand side of
+ * `... = 0`.
+ * @throws {ExpressionError} If either side is invalid or there is more than one `=`.
+ */
+export function parseEquation(source: string): Equation {
+  const sides = source.split('=');
+  if (sides.length > 2) {
+    throw new ExpressionError("An equation may contain only one '='");
+  }
+  const [lhs = '', rhs] = sides;
+  return {
+    lhs: parseExpression(lhs),
+    rhs: rhs === undefined ? { type: 'number', value: 0 } : parseExpression(rhs),
+  };
+}
+
+/**
+ * Renders an equation in canonical form, e.g. `x ^ 2 - 5 * x + 6 = 0`.
+ */
+export function formatEquation({ lhs, rhs }: Equation): string {
+  return `${formatExpression(lhs)} = ${formatExpression(rhs)}`;
+}
+
+// =================================================================
+// SOLVING
+// =================================================================
+
+/**
+ * Solves an equation for `variable` by finding the roots of `f = lhs - rhs`.
+ * @param scope Values of every other variable in the equation.
+ * @throws {ExpressionError} If the equation references unknown variables or functions.
+ * @throws {ArithmeticError} If a numeric method cannot find a root.
+ */
+export function solveEquation(
+  { lhs, rhs }: Equation,
+  variable: string,
+  scope: ExpressionScope,
+  options: SolveOptions,
+): SolveOutcome {
+  const f: ExpressionNode = { type: 'binary', operator: '-', left: lhs, right: rhs };
+  if (options.method === 'auto') {
+    const coefficients = toPolynomial(f, variable, scope);
+    if (coefficients && coefficients.length - 1 <= MAX_POLYNOMIAL_DEGREE) {
+      return solvePolynomial(coefficients, options);
+    }
+  }
+
+  const fn = (x: number) => evaluateExpression(f, { ...scope, [variable]: x });
+  if (options.method === 'bisection' || (options.method === 'auto' && options.interval)) {
+    const [a, b] = options.interval ?? [-SCAN_RANGE, SCAN_RANGE];
+    return bisection(fn, a, b, options);
+  }
+  if (options.method === 'newton') {
+    return newton(fn, options.initialGuess ?? 1, options);
+  }
+
+  // Auto without an interval: try Newton first, then look for a sign change to bracket.
+  try {
+    return newton(fn, options.initialGuess ?? 1, options);
+  } catch (error) {
+    // Unknown names and wrong arities are mistakes in the equation, not numeric failures
+    if (error instanceof ExpressionError && isNameError(error)) {
+      throw error;
+    }
+    const bracket = findSignChange(fn, options.initialGuess ?? 0);
+    if (!bracket) {
+      throw new ArithmeticError(
+        'Could not find a root; provide an interval where the equation changes sign or a different initialGuess',
+        { cause: error instanceof Error ? error.message : String(error) },
+      );
+    }
+    return bisection(fn, bracket[0], bracket[1], options);
+  }
+}
+
+/**
+ * Extracts the coefficients of `node` as a polynomial in `variable`, lowest power first.
+ * Returns `null` if `node` is not a polynomial (e.g. `sin(x)`, `1 / x` or `x ^ 0.5`).
+ */
+function toPolynomial(
+  node: ExpressionNode,
+  variable: string,
+  scope: ExpressionScope,
+): number[] | null {
+  if (!collectVariables(node).includes(variable)) {
+    return [evaluateExpression(node, scope)];
+  }
+  switch (node.type) {
+    case 'variable':
+      return [0, 1];
+    case 'unary': {
+      const operand = toPolynomial(node.operand, variable, scope);
+      return operand && (node.operator === '-' ? operand.map((c) => -c) : operand);
+    }
+    case 'binary': {
+      const left = toPolynomial(node.left, variable, scope);
+      const right = toPolynomial(node.right, variable, scope);
+      if (!left || !right) {
+        return null;
+      }
+      switch (node.operator) {
+        case '+':
+          return addPolynomials(left, right, 1);
+        case '-':
+          return addPolynomials(left, right, -1);
+        case '*':
+          // Higher degrees are solved numerically anyway; building them could take very long
+          return left.length + right.length - 2 > MAX_POLYNOMIAL_DEGREE
+            ? null
+            : multiplyPolynomials(left, right);
+        case '/': {
+          const divisor = right.length === 1 ? (right[0] ?? 0) : 0;
+          return divisor === 0 ? null : left.map((c) => c / divisor);
+        }
+        case '^': {
+          const exponent = right.length === 1 ? (right[0] ?? -1) : -1;
+          if (
+            !Number.isInteger(exponent) ||
+            exponent < 0 ||
+            exponent > MAX_POLYNOMIAL_DEGREE ||
+            // Nested powers such as (x^20)^20 multiply their degrees
+            (left.length - 1) * exponent > MAX_POLYNOMIAL_DEGREE
+          ) {
+            return null;
+          }
+          let power = [1];
+          for (let i = 0; i < exponent; i++) {
+            power = multiplyPolynomials(power, left);
+          }
+          return power;
+        }
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+function addPolynomials(p: number[], q: number[], sign: 1 | -1): number[] {
+  return Array.from(
+    { length: Math.max(p.length, q.length) },
+    (_, i) => (p[i] ?? 0) + sign * (q[i] ?? 0),
+  );
+}
+
+function multiplyPolynomials(p: number[], q: number[]): number[] {
+  const product = new Array<number>(p.length + q.length - 1).fill(0);
+  p.forEach((a, i) => q.forEach((b, j) => (product[i + j] = (product[i + j] ?? 0) + a * b)));
+  return product;
+}
+
+/**
+ * Solves a polynomial equation given its coefficients (lowest power first).
+ */
+function solvePolynomial(coefficients: number[], options: SolveOptions): SolveOutcome {
+  const trimmed = [...coefficients];
+  while (trimmed.length > 0 && trimmed[trimmed.length - 1] === 0) {
+    trimmed.pop();
+  }
+  const degree = Math.max(trimmed.length - 1, 0);
+  const [c = 0, b = 0, a = 0] = trimmed;
+
+  switch (trimmed.length) {
+    case 0:
+      return { status: 'infinite_solutions', method: 'constant', degree, roots: [] };
+    case 1:
+      return { status: 'no_solution', method: 'constant', degree, roots: [] };
+    case 2:
+      return { status: 'solved', method: 'linear', degree, roots: [real(-c / b + 0)] };
+    case 3:
+      return { status: 'solved', method: 'quadratic', degree, roots: quadraticRoots(a, b, c) };
+    default:
+      return {
+        status: 'solved',
+        method: 'polynomial',
+        degree,
+        ...durandKerner(trimmed, options),
+      };
+  }
+}
+
+/**
+ * Roots of `a x^2 + b x + c` by the quadratic formula, in the numerically stable form that
+ * avoids cancellation when `b^2` is much larger than `4ac`.
+ */
+function quadraticRoots(a: number, b: number, c: number): ComplexNumber[] {
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) {
+    const re = -b / (2 * a) + 0;
+    const im = Math.sqrt(-discriminant) / (2 * Math.abs(a));
+    return [
+      { real: re, imaginary: -im },
+      { real: re, imaginary: im },
+    ];
+  }
+  if (discriminant === 0) {
+    return [real(-b / (2 * a) + 0)];
+  }
+  const q = -(b + Math.sign(b || 1) * Math.sqrt(discriminant)) / 2;
+  return [q / a, c / q].sort((x, y) => x - y).map((x) => real(x + 0));
+}
+
+/**
+ * Finds all complex roots of a polynomial at once with the Durand-Kerner iteration.
+ * @throws {ArithmeticError} If the roots do not converge within `maxIterations`.
+ */
+function durandKerner(
+  coefficients: number[],
+  options: SolveOptions,
+): Pick<SolveOutcome, 'roots' | 'iterations'> {
+  const degree = coefficients.length - 1;
+  const leading = coefficients[degree] ?? 1;
+  const monic = coefficients.map((c) => c / leading);
+  const evaluate = (z: Complex): Complex =>
+    monic.reduceRight<Complex>((sum, coefficient) => add(mul(sum, z), [coefficient, 0]), [0, 0]);
+  // A root is as good as it gets once p(z) is within rounding error of evaluating p at z.
+  const negligible = (z: Complex): boolean => {
+    const size = Math.hypot(z[0], z[1]);
+    const bound = monic.reduceRight((sum, coefficient) => sum * size + Math.abs(coefficient), 0);
+    const [re, im] = evaluate(z);
+    return Math.hypot(re, im) <= 8 * Number.EPSILON * bound;
+  };
+
+  // The standard starting points: powers of a complex number that is not a root of unity.
+  let roots: Complex[] = Array.from({ length: degree }, (_, k) => pow([0.4, 0.9], k));
+  for (let iteration = 1; iteration <= options.maxIterations; iteration++) {
+    let largestStep = 0;
+    roots = roots.map((z, i) => {
+      let denominator: Complex = [1, 0];
+      roots.forEach((other, j) => {
+        if (j !== i) {
+          denominator = mul(denominator, sub(z, other));
+        }
+      });
+      const step = div(evaluate(z), denominator);
+      largestStep = Math.max(largestStep, Math.hypot(step[0], step[1]));
+      return sub(z, step);
+    });
+    if (largestStep < options.tolerance || roots.every(negligible)) {
+      return { roots: sortRoots(mergeRepeatedRoots(roots).map(cleanRoot)), iterations: iteration };
+    }
+  }
+  throw new ArithmeticError(
+    `Polynomial roots did not converge within ${options.maxIterations} iterations`,
+  );
+}
+
+/**
+ * Finds a root inside `[a, b]` by repeatedly halving an interval where `fn` changes sign.
+ * @throws {ArithmeticError} If `fn` has the same sign at both ends or the iteration cap is hit.
+ */
+function bisection(
+  fn: (x: number) => number,
+  a: number,
+  b: number,
+  options: SolveOptions,
+): SolveOutcome {
+  let [low, high] = a <= b ? [a, b] : [b, a];
+  let fLow = fn(low);
+  const fHigh = fn(high);
+  if (fLow === 0 || fHigh === 0) {
+    return numericRoot(fLow === 0 ? low : high, 'bisection', 0);
+  }
+  if (Math.sign(fLow) === Math.sign(fHigh)) {
+    throw new ArithmeticError(
+      `The equation does not change sign between ${low} and ${high}; choose an interval that brackets a root`,
+    );
+  }
+
+  for (let iteration = 1; iteration <= options.maxIterations; iteration++) {
+    const mid = (low + high) / 2;
+    const fMid = fn(mid);
+    if (fMid === 0 || (high - low) / 2 < options.tolerance) {
+      return numericRoot(mid, 'bisection', iteration);
+    }
+    if (Math.sign(fMid) === Math.sign(fLow)) {
+      low = mid;
+      fLow = fMid;
+    } else {
+      high = mid;
+    }
+  }
+  throw new ArithmeticError(
+    `Bisection did not reach the tolerance within ${options.maxIterations} iterations`,
+  );
+}
+
+/**
+ * Finds a root near `guess` with Newton's method, using a numerical derivative.
+ * @throws {ArithmeticError} If the derivative vanishes or the iteration cap is hit.
+ */
+function newton(fn: (x: number) => number, guess: number, options: SolveOptions): SolveOutcome {
+  let x = guess;
+  for (let iteration = 1; iteration <= options.maxIterations; iteration++) {
+    const fx = fn(x);
+    if (fx === 0) {
+      return numericRoot(x, 'newton', iteration);
+    }
+    const h = 1e-6 * Math.max(1, Math.abs(x));
+    const derivative = (fn(x + h) - fn(x - h)) / (2 * h);
+    if (derivative === 0 || !Number.isFinite(derivative)) {
+      throw new ArithmeticError(`Newton's method stalled: the derivative is zero at x = ${x}`);
+    }
+    const step = fx / derivative;
+    x -= step;
+    if (!Number.isFinite(x)) {
+      throw new ArithmeticError("Newton's method diverged");
+    }
+    if (Math.abs(step) < options.tolerance) {
+      return numericRoot(x, 'newton', iteration);
+    }
+  }
+  throw new ArithmeticError(
+    `Newton's method did not converge within ${options.maxIterations} iterations`,
+  );
+}
+
+/**
+ * Scans outwards from `center` for two neighbouring points where `fn` changes sign.
+ * Points where `fn` is undefined (e.g. `sqrt` of a negative number) are skipped.
+ */
+function findSignChange(fn: (x: number) => number, center: number): [number, number] | null {
+  const step = SCAN_RANGE / 200;
+  const safe = (x: number) => {
+    try {
+      return fn(x);
+    } catch {
+      return NaN;
+    }
+  };
+  for (let offset = 0; offset < SCAN_RANGE; offset += step) {
+    for (const [a, b] of [
+      [center + offset, center + offset + step],
+      [center - offset - step, center - offset],
+    ] as const) {
+      const fa = safe(a);
+      const fb = safe(b);
+      if (Number.isFinite(fa) && Number.isFinite(fb) && Math.sign(fa) !== Math.sign(fb)) {
+        return [a, b];
+      }
+    }
+  }
+  return null;
+}
+
+function numericRoot(x: number, method: SolveMethod, iterations: number): SolveOutcome {
+  return { status: 'solved', method, roots: [real(x + 0)], iterations };
+}
+
+// =================================================================
+// COMPLEX NUMBER HELPERS
+// =================================================================
+
+/** A complex number as `[real, imaginary]`, used internally by Durand-Kerner. */
+type Complex = [number, number];
+
+const add = ([a, b]: Complex, [c, d]: Complex): Complex => [a + c, b + d];
+const sub = ([a, b]: Complex, [c, d]: Complex): Complex => [a - c, b - d];
+const mul = ([a, b]: Complex, [c, d]: Complex): Complex => [a * c - b * d, a * d + b * c];
+const div = ([a, b]: Complex, [c, d]: Complex): Complex => {
+  const denominator = c * c + d * d;
+  return [(a * c + b * d) / denominator, (b * c - a * d) / denominator];
+};
+const pow = (z: Complex, n: number): Complex => {
+  let result: Complex = [1, 0];
+  for (let i = 0; i < n; i++) {
+    result = mul(result, z);
+  }
+  return result;
+};
+
+/**
+ * Repeated roots (e.g. of `(x - 1)^3`) can only be found to about the m-th root of machine
+ * precision and come back as a tight cluster. Each cluster is replaced by its centroid, which
+ * is far more accurate, and reported once.
+ */
+function mergeRepeatedRoots(roots: Complex[]): Complex[] {
+  const merged: Complex[] = [];
+  const used = new Set<number>();
+  roots.forEach((z, i) => {
+    if (used.has(i)) {
+      return;
+    }
+    const radius = 1e-4 * Math.max(1, Math.hypot(z[0], z[1]));
+    const cluster = roots.filter(
+      (other, j) => !used.has(j) && Math.hypot(other[0] - z[0], other[1] - z[1]) < radius,
+    );
+    roots.forEach((other, j) => {
+      if (cluster.includes(other)) {
+        used.add(j);
+      }
+    });
+    const sum = cluster.reduce(add, [0, 0]);
+    merged.push([sum[0] / cluster.length, sum[1] / cluster.length]);
+  });
+  return merged;
+}
+
+function real(value: number): ComplexNumber {
+  return { real: value, imaginary: 0 };
+}
+
+/**
+ * Converts an internal root to a `ComplexNumber`, snapping tiny imaginary parts (numerical
+ * noise around real roots) to zero.
+ */
+function cleanRoot([re, im]: Complex): ComplexNumber {
+  const snap = (v: number, scale: number) => (Math.abs(v) < 1e-9 * Math.max(1, scale) ? 0 : v);
+  const magnitude = Math.hypot(re, im);
+  return { real: snap(re, magnitude) + 0, imaginary: snap(im, magnitude) + 0 };
+}
+
+/** Orders real roots first (ascending), then complex roots by real and imaginary part. */
+function sortRoots(roots: ComplexNumber[]): ComplexNumber[] {
+  // Conjugate pairs differ in their real parts only by rounding noise, so compare loosely
+  const compare = (a: number, b: number) =>
+    Math.abs(a - b) < 1e-9 * Math.max(1, Math.abs(a)) ? 0 : a - b;
+  return [...roots].sort(
+    (p, q) =>
+      Number(p.imaginary !== 0) - Number(q.imaginary !== 0) ||
+      compare(p.real, q.real) ||
+      p.imaginary - q.imaginary,
+  );
+}
@@ -0,0 +1,211 @@
+/**
+ * @file src/statistics.ts
+ * @description Descriptive statistics and simple linear regression for the `statistics` tool
+ * and the per-session `calculator://stats/session` resource.
+ *
+ * WHY: Small data sets (a handful of measurements, the results of the last few
+ * calculations) are analysed in chat all the time, but the arithmetic tools only take two
+ * operands. Computing every measure in one place keeps the tool and the resource consistent.
+ *
+ * Key Error Handling Ideas:
+ * - An empty data set or mismatched regression inputs throw an `ArithmeticError`
+ *   (`InvalidParams`), because they are caused by the caller's input.
+ * - Measures that are undefined for the given data (e.g. the sample variance of a single
+ *   value, or a regression over constant `x` values) are reported as `null` instead.
+ */
+
+import { ArithmeticError } from './types.js';
+import type { Calculation } from './types.js';
+import { formatNumber, formatList } from './locale.js';
+import type { Locale } from './locale.js';
+
+/** Percentiles reported when the caller does not ask for specific ones. */
+export const DEFAULT_PERCENTILES = [25, 50, 75];
+
+/**
+ * The least-squares line `y = slope * x + intercept` through the data.
+ * `rSquared` is `null` when all `y` values are equal, since the fit then explains nothing.
+ */
+export interface LinearRegression {
+  slope: number;
+  intercept: number;
+  rSquared: number | null;
+}
+
+/**
+ * The full set of measures computed for a data set.
+ * Population measures divide by `n`; sample measures divide by `n - 1` and are `null` for a
+ * single value. `mode` lists every most frequent value and is empty when no value repeats.
+ */
+export interface StatisticsSummary {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  range: number;
+  mean: number;
+  median: number;
+  mode: number[];
+  variance: number;
+  standardDeviation: number;
+  sampleVariance: number | null;
+  sampleStandardDeviation: number | null;
+  percentiles: Record<string, number>;
+  regression: LinearRegression | null;
+}
+
+/**
+ * Computes every measure of `StatisticsSummary` for `values`.
+ * @param percentiles Percentiles (0-100) to report, keyed as `p25`, `p50`, ...
+ * @param x Independent values paired with `values` for the regression. Defaults to the
+ *   observation number (1, 2, 3, ...), which turns the regression into a trend line.
+ * @throws {ArithmeticError} If `values` is empty or `x` does not match its length.
+ */
+export function summarize(
+  values: number[],
+  percentiles: number[] = DEFAULT_PERCENTILES,
+  x?: number[],
+): StatisticsSummary {
+  if (values.length === 0) {
+    throw new ArithmeticError('Cannot compute statistics of an empty data set');
+  }
+  if (x && x.length !== values.length) {
+    throw new ArithmeticError(
+      `Regression needs one x value per data point (got ${x.length} x values for ${values.length} data points)`,
+    );
+  }
+
+  const sorted = [...values].sort((p, q) => p - q);
+  const count = values.length;
+  const sum = values.reduce((total, v) => total + v, 0);
+  const mean = sum / count;
+  const squaredDeviations = values.reduce((total, v) => total + (v - mean) ** 2, 0);
+  const variance = squaredDeviations / count;
+  const sampleVariance = count > 1 ? squaredDeviations / (count - 1) : null;
+  const min = sorted[0] ?? 0;
+  const max = sorted[count - 1] ?? 0;
+
+  return {
+    count,
+    sum,
+    min,
+    max,
+    range: max - min,
+    mean,
+    median: percentile(sorted, 50),
+    mode: modes(sorted),
+    variance,
+    standardDeviation: Math.sqrt(variance),
+    sampleVariance,
+    sampleStandardDeviation: sampleVariance === null ? null : Math.sqrt(sampleVariance),
+    percentiles: Object.fromEntries(percentiles.map((p) => [`p${p}`, percentile(sorted, p)])),
+    regression: linearRegression(x ?? values.map((_, i) => i + 1), values),
+  };
+}
+
+/**
+ * Returns the `p`-th percentile of an ascending list, interpolating linearly between the
+ * closest ranks (the method used by most spreadsheets).
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const low = sorted[lower] ?? 0;
+  const high = sorted[upper] ?? low;
+  return low + (high - low) * (rank - lower);
+}
+
+/**
+ * Returns all values that occur most often, or an empty list when every value is unique.
+ */
+function modes(sorted: number[]): number[] {
+  const counts = new Map<number, number>();
+  for (const value of sorted) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  const highest = Math.max(...counts.values());
+  if (highest === 1) {
+    return [];
+  }
+  return [...counts].filter(([, n]) => n === highest).map(([value]) => value);
+}
+
+/**
+ * Fits `y = slope * x + intercept` by ordinary least squares.
+ * Returns `null` for fewer than two points or when all `x` values are equal.
+ */
+function linearRegression(x: number[], y: number[]): LinearRegression | null {
+  const n = x.length;
+  if (n < 2) {
+    return null;
+  }
+  const meanX = x.reduce((total, v) => total + v, 0) / n;
+  const meanY = y.reduce((total, v) => total + v, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = (x[i] ?? 0) - meanX;
+    const dy = (y[i] ?? 0) - meanY;
+    sxx += dx * dx;
+    sxy += dx * dy;
+    syy += dy * dy;
+  }
+  if (sxx === 0) {
+    return null;
+  }
+  const slope = sxy / sxx;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    rSquared: syy === 0 ? null : (sxy * sxy) / (sxx * syy),
+  };
+}
+
+/**
+ * Selects the numeric results of a session's history for analysis, oldest first.
+ * Calculations without a double result (exact results beyond the double range) are skipped.
+ * @param operation Only include calculations with this operation.
+ * @param last Only include the `last` most recent matching calculations.
+ */
+export function historyValues(
+  calculations: Calculation[],
+  operation?: string,
+  last?: number,
+): number[] {
+  const values = calculations
+    .filter((c) => operation === undefined || c.operation === operation)
+    .map((c) => c.result)
+    .filter((result): result is number => result !== null);
+  return last === undefined ? values : values.slice(-last);
+}
+
+/**
+ * Renders a summary as the multi-line text returned by the `statistics` tool, with the
+ * numbers formatted for the session's locale.
+ */
+export function formatSummary(summary: StatisticsSummary, locale: Locale): string {
+  const n = (value: number): string => formatNumber(value, locale);
+  const lines = [
+    `Count: ${n(summary.count)}`,
+    `Sum: ${n(summary.sum)}`,
+    `Min: ${n(summary.min)}, Max: ${n(summary.max)}, Range: ${n(summary.range)}`,
+    `Mean: ${n(summary.mean)}`,
+    `Median: ${n(summary.median)}`,
+    `Mode: ${summary.mode.length > 0 ? formatList(summary.mode.map(n), locale) : 'none (all values unique)'}`,
+    `Variance: ${n(summary.variance)} (population), ${summary.sampleVariance === null ? 'n/a' : n(summary.sampleVariance)} (sample)`,
+    `Standard deviation: ${n(summary.standardDeviation)} (population), ${summary.sampleStandardDeviation === null ? 'n/a' : n(summary.sampleStandardDeviation)} (sample)`,
+    `Percentiles: ${formatList(
+      Object.entries(summary.percentiles).map(([key, value]) => `${key}=${n(value)}`),
+      locale,
+    )}`,
+  ];
+  const { regression } = summary;
+  lines.push(
+    regression
+      ? `Linear regression: y = ${n(regression.slope)} * x ${regression.intercept < 0 ? '-' : '+'} ${n(Math.abs(regression.intercept))} (R² = ${regression.rSquared === null ? 'n/a' : n(regression.rSquared)})`
+      : 'Linear regression: n/a (needs at least two distinct x values)',
+  );
+  return lines.join('\n');
+}
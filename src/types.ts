@@ -18,6 +18,9 @@ import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { SUPPORTED_LOCALES, localizeMessage } from './locale.js';
+import type { Locale } from './locale.js';
 
 // =================================================================
 // CORE INTERFACES AND DATA STRUCTURES
@@ -59,8 +62,43 @@ export interface ISessionStore {
   /**
    * Update the last activity timestamp and increment request counter
    * @param sessionId - Unique identifier for the session
+   * @returns The updated session data, or null if the session was not found
    */
-  updateActivity(sessionId: string): Promise<void>;
+  updateActivity(sessionId: string): Promise<SessionData | null>;
+}
+
+/**
+ * @interface IHistoryArchive
+ * @description Cheaper, append-only storage for calculations evicted from a session's
+ * bounded history. Archived calculations stay addressable, so
+ * `calculator://history/{calculationId}` links from earlier in a conversation keep working.
+ *
+ * Implementations are best-effort: failures are logged rather than thrown, because losing
+ * an archived entry must never fail the calculation that evicted it.
+ */
+export interface IHistoryArchive {
+  /**
+   * Append evicted calculations to a session's archive
+   * @param sessionId - Session the calculations belong to
+   * @param calculations - Calculations in the order they were evicted
+   */
+  archive(sessionId: string, calculations: Calculation[]): Promise<void>;
+
+  /**
+   * Look up a single archived calculation
+   * @returns The calculation, or null if it was never archived or has expired
+   */
+  get(sessionId: string, calculationId: string): Promise<Calculation | null>;
+
+  /**
+   * List a session's archived calculations, oldest first
+   */
+  list(sessionId: string): Promise<Calculation[]>;
+
+  /**
+   * Remove a session's archive permanently
+   */
+  delete(sessionId: string): Promise<void>;
 }
 
 /**
@@ -69,7 +107,7 @@ export interface ISessionStore {
  * This is part of the event sourcing pattern - each calculation is an immutable event
  * that gets appended to the session's history. This enables:
  * - Complete audit trail of all calculations
- * - Ability to replay/reconstruct session state
+ * - Ability to replay/reconstruct session state (`export_history` + `import_history`)
  * - Historical analytics and debugging capabilities
  */
 export interface Calculation {
@@ -88,8 +126,71 @@ export interface Calculation {
   /** Array of input values used in the calculation */
   inputs: number[];
 
-  /** Final result of the calculation */
-  result: number;
+  /**
+   * Final result of the calculation as a float. `null` when an exact result (see
+   * `exactResult`) is too large to be represented as a double, e.g. `factorial(200)`.
+   */
+  result: number | null;
+
+  /**
+   * Full-precision string form of the result for the `decimal` and `bigint` precision modes.
+   * Stored as a string so exact values survive JSON serialization (e.g. in Redis) unchanged.
+   */
+  exactResult?: string;
+
+  /** Full-precision string forms of `inputs`, recorded alongside `exactResult` */
+  exactInputs?: string[];
+
+  /** Precision mode the calculation was performed in. Absent means `float`. */
+  precision?: PrecisionMode;
+
+  /** Significant digits, for calculations performed in `decimal` precision */
+  digits?: number;
+
+  /** Unit of each input for unit-aware calculations ('' for a plain number) */
+  inputUnits?: string[];
+
+  /** Unit of the result for unit-aware calculations ('' when the units cancelled out) */
+  unit?: string;
+
+  /** Canonical form of the parsed expression, for calculations made by `evaluate_expression` */
+  expression?: string;
+
+  /**
+   * Non-scalar inputs (matrices and vectors), for calculations made by `matrix_calculate`.
+   * Scalar `inputs` is empty for such calculations.
+   */
+  structuredInputs?: StructuredValue[];
+
+  /** Non-scalar result (a matrix or vector); `result` is `null` when this is set */
+  structuredResult?: StructuredValue;
+
+  /**
+   * Outcome of `solve_equation`, including complex roots. `result` holds the first real
+   * root, if any, so it can be reused as `ans`.
+   */
+  solution?: EquationSolution;
+}
+
+/** A matrix as a list of rows of equal length. */
+export type Matrix = number[][];
+
+/** A non-scalar value stored in a calculation: a matrix or a vector. */
+export type StructuredValue = Matrix | number[];
+
+/** A complex number; real numbers have an `imaginary` part of 0. */
+export interface ComplexNumber {
+  real: number;
+  imaginary: number;
+}
+
+/**
+ * The solutions of an equation. `roots` is empty unless `status` is `solved`;
+ * `infinite_solutions` means every value satisfies the equation (e.g. `x = x`).
+ */
+export interface EquationSolution {
+  status: 'solved' | 'no_solution' | 'infinite_solutions';
+  roots: ComplexNumber[];
 }
 
 /**
@@ -103,8 +204,9 @@ export interface Calculation {
  * foundation of the "Just-in-Time Instance Reconstruction" pattern that enables
  * horizontal scaling without sticky sessions.
  *
- * The calculations array implements a ring buffer pattern (max 50 entries) to
- * prevent unbounded memory growth while maintaining recent history.
+ * The calculations array implements a ring buffer pattern (`ServerConfig.historySize`
+ * entries) to prevent unbounded memory growth while maintaining recent history. Evicted
+ * entries move to the optional `IHistoryArchive`.
  */
 export interface SessionData {
   /** Unique session identifier */
@@ -125,10 +227,132 @@ export interface SessionData {
   /** Total number of requests processed in this session */
   requestCount: number;
 
-  /** Calculation history (ring buffer, max 50 entries) */
+  /** Calculation history (ring buffer of `ServerConfig.historySize` entries) */
   calculations: Calculation[];
+
+  /**
+   * Calculations removed by `undo_calculation`, most recently undone last.
+   * Recording a new calculation clears it, as in any editor's undo history.
+   */
+  redoStack: Calculation[];
+
+  /**
+   * Named variables that tools can reference instead of literal numbers.
+   * The reserved `ans` variable always holds the result of the latest calculation.
+   */
+  variables: Record<string, number>;
+
+  /** Calculator-style memory register driven by the `memory` tool (M+, M-, MR, MC) */
+  memory: number;
+
+  /** Default precision for arithmetic tools; individual calls may override it */
+  precision: PrecisionSettings;
+
+  /**
+   * User-defined functions, keyed by name. Each one is registered as a tool on the
+   * session's `McpServer`, including when the session is reconstructed on another node.
+   */
+  functions: Record<string, UserFunction>;
+
+  /**
+   * Charts drawn by `plot_function`, keyed by plot ID and published as
+   * `calculator://plots/{plotId}`. Only the most recent `MAX_SESSION_PLOTS` are kept.
+   */
+  plots: Record<string, Plot>;
+
+  /**
+   * URIs of the resources the client subscribed to with `resources/subscribe`. Kept with the
+   * session so notifications keep flowing after the session is reconstructed on another node.
+   */
+  subscriptions: string[];
+
+  /**
+   * Locale of the text meant for people: numbers in tool results, prompt templates and
+   * error messages. Negotiated at initialization and changed with `set_locale`.
+   */
+  locale: Locale;
+
+  /**
+   * The question a tool call of this session is waiting for the user to answer, if any. It is
+   * kept with the session because the client's answer may arrive at any node.
+   */
+  pendingElicitation: PendingElicitation | null;
+}
+
+/**
+ * @interface UserFunction
+ * @description A function defined with `define_function`, e.g. `bmi(w, h) = w / h ^ 2`.
+ */
+export interface UserFunction {
+  name: string;
+  params: string[];
+  /** Canonical form of the function body */
+  body: string;
+  description?: string;
+  createdAt: number;
+}
+
+/**
+ * @interface Plot
+ * @description A chart drawn by `plot_function`, stored with the session as rendered SVG.
+ */
+export interface Plot {
+  id: string;
+  title: string;
+  /** Canonical form of each plotted expression */
+  expressions: string[];
+  variable: string;
+  from: number;
+  to: number;
+  svg: string;
+  createdAt: number;
+}
+
+/** How long a tool call waits for the user to answer a question. */
+export const ELICITATION_TIMEOUT_MS = 5 * 60_000;
+
+/** How often a waiting tool call checks the session store for the answer. */
+export const ELICITATION_POLL_INTERVAL_MS = 250;
+
+/**
+ * @interface PendingElicitation
+ * @description A question (`elicitation/create`) sent to the client on behalf of a tool call,
+ * e.g. for a missing parameter or to confirm a destructive action. Only one question per
+ * session can be pending at a time.
+ */
+export interface PendingElicitation {
+  /** JSON-RPC ID of the request; the client's response carries the same ID */
+  requestId: string;
+  /** Unix timestamp after which the tool call gives up waiting */
+  expiresAt: number;
+  /** The client's answer, stored by whichever node received it */
+  answer?: ElicitResult;
+}
+
+/**
+ * Arithmetic precision modes:
+ * - `float`: IEEE-754 doubles
+ * - `decimal`: arbitrary-precision decimals with a configurable number of significant digits
+ * - `bigint`: exact integers of unlimited size
+ */
+export type PrecisionMode = 'float' | 'decimal' | 'bigint';
+
+/**
+ * @interface PrecisionSettings
+ * @description A precision mode together with its parameters.
+ */
+export interface PrecisionSettings {
+  mode: PrecisionMode;
+
+  /** Significant digits used by the `decimal` mode */
+  digits: number;
 }
 
+/**
+ * The precision every new session starts with.
+ */
+export const DEFAULT_PRECISION: PrecisionSettings = { mode: 'float', digits: 20 };
+
 /**
  * @interface TransportWithSessionId
  * @description Extension of StreamableHTTPServerTransport that includes session ID.
@@ -154,17 +378,132 @@ export interface TransportWithSessionId extends StreamableHTTPServerTransport {
  * consistency between validation and type definitions.
  */
 
+/**
+ * Pattern for session variable names. Kept identical to the identifier rule of the
+ * expression engine so a variable set here can be referenced inside expressions.
+ */
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Name of the read-only variable that always holds the latest calculation result.
+ */
+export const ANSWER_VARIABLE = 'ans';
+
+/**
+ * Zod schema for a session variable name.
+ */
+export const variableNameSchema = z
+  .string()
+  .max(64)
+  .regex(VARIABLE_NAME_PATTERN, 'Variable names must start with a letter or underscore');
+
+/**
+ * Longest numeric string a tool accepts as an operand.
+ * WHY: Exact precision modes work with every digit, so operand size bounds the work a single
+ * request can cause (see also the result limit in arithmetic.ts).
+ */
+export const MAX_OPERAND_LENGTH = 1000;
+
+/**
+ * Zod schema for a tool operand: a literal number, a numeric string, or the name of a
+ * session variable. Variables are what let a stateful session carry a previous result
+ * (`ans`) into the next step; numeric strings let exact precision modes receive values
+ * such as `"123456789012345678901234567890"` that a JSON number cannot hold. Exponents of
+ * numeric strings have at most four digits, so `"1e8000000"` can't stand for eight million
+ * digits.
+ */
+export const operandSchema = z.union([
+  z.number(),
+  z
+    .string()
+    .max(MAX_OPERAND_LENGTH)
+    .regex(/^-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d{1,4})?$/)
+    .describe('Numeric literal as a string, for values beyond double precision'),
+  variableNameSchema.describe('Name of a session variable, e.g. "x" or "ans"'),
+]);
+
+/**
+ * Zod schemas for the optional per-call precision override shared by the arithmetic tools.
+ */
+export const precisionModeSchema = z
+  .enum(['float', 'decimal', 'bigint'])
+  .describe('Arithmetic precision: float (default), decimal, or exact bigint');
+
+export const precisionDigitsSchema = z
+  .number()
+  .int()
+  .min(1)
+  .max(1000)
+  .describe('Significant digits for decimal precision');
+
+/**
+ * Zod schema for a quantity with a unit, such as `"5 km"` or `"60 km/h"`.
+ * Only the shape is checked here; unit names are validated when the quantity is parsed.
+ */
+export const quantitySchema = z
+  .string()
+  .max(100)
+  .regex(/^\s*-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?\s*[^\d\s.].*$/)
+  .describe('Quantity with a unit, e.g. "5 km" or "60 km/h"');
+
 /**
  * Zod schema for the 'calculate' tool arguments.
  * Validates basic arithmetic operations with optional streaming support.
+ * Operands may carry units, in which case dimensional analysis applies.
  */
 export const calculateArgsSchema = z.object({
-  a: z.number().describe('First operand'),
-  b: z.number().describe('Second operand'),
+  a: z
+    .union([operandSchema, quantitySchema])
+    .describe('First operand (number, variable name, or quantity like "5 km")'),
+  b: z
+    .union([operandSchema, quantitySchema])
+    .describe('Second operand (number, variable name, or quantity like "300 m")'),
   op: z.enum(['add', 'subtract', 'multiply', 'divide']).describe('Operation to perform'),
   stream: z.boolean().optional().describe('Stream intermediate results'),
+  precision: precisionModeSchema.optional(),
+  digits: precisionDigitsSchema.optional(),
 });
 
+/**
+ * Fields shared by the structured output of the arithmetic tools.
+ */
+const arithmeticResultShape = {
+  result: z
+    .number()
+    .nullable()
+    .describe('Result as a double; null when it exceeds the double range'),
+  exactResult: z.string().optional().describe('Exact result in decimal or bigint precision'),
+  precision: precisionModeSchema,
+};
+
+/**
+ * Structured output of the 'calculate' tool, as a raw shape for `outputSchema`.
+ */
+export const calculateResultSchema = {
+  calculationId: z.string(),
+  operation: calculateArgsSchema.shape.op,
+  a: z.string().describe('First operand as used, with variables resolved'),
+  b: z.string().describe('Second operand as used, with variables resolved'),
+  ...arithmeticResultShape,
+  unit: z.string().optional().describe('Unit of the result, for unit-aware calculations'),
+  expression: z.string().describe('The calculation as text, e.g. "3 add 4 = 7"'),
+};
+
+/** Largest number of calculations accepted by a single 'batch_calculate' call. */
+export const MAX_BATCH_SIZE = 100;
+
+/**
+ * Zod schema for a 'batch_calculate' operand: any tool operand, or a `$N` reference to the
+ * result of item `N` (zero-based) of the same batch.
+ */
+export const batchOperandSchema = z.union([
+  operandSchema,
+  z
+    .string()
+    .regex(/^\$\d+$/)
+    .describe('Result of another item of the batch, e.g. "$0" for the first item'),
+]);
+
 /**
  * Zod schema for the 'batch_calculate' tool arguments.
  * Validates arrays of calculations for batch processing.
@@ -173,15 +512,76 @@ export const batchCalculateArgsSchema = z.object({
   calculations: z
     .array(
       z.object({
-        a: z.number(),
-        b: z.number(),
+        a: batchOperandSchema,
+        b: batchOperandSchema,
         op: z.enum(['add', 'subtract', 'multiply', 'divide']),
       }),
     )
-    .describe('Array of calculations to perform'),
+    .min(1)
+    .max(MAX_BATCH_SIZE)
+    .describe('Array of calculations to perform; operands may reference earlier items as "$N"'),
+  stopOnError: z
+    .boolean()
+    .optional()
+    .describe('Stop at the first failing item and skip the rest (default: false)'),
   reportProgress: z.boolean().optional().describe('Report progress during batch processing'),
+  precision: precisionModeSchema.optional(),
+  digits: precisionDigitsSchema.optional(),
+});
+
+/**
+ * Zod schema for the reason a 'batch_calculate' item failed.
+ */
+export const batchItemErrorSchema = z.object({
+  code: z.enum([
+    'invalid_reference',
+    'cycle',
+    'dependency_failed',
+    'undefined_variable',
+    'arithmetic_error',
+  ]),
+  message: z.string(),
+  dependsOn: z
+    .number()
+    .int()
+    .optional()
+    .describe('Index of the referenced item that is missing or failed'),
 });
 
+/**
+ * Structured output of the 'batch_calculate' tool, as a raw shape for `outputSchema`.
+ * Every item of the batch gets an entry, in input order: its result, why it failed, or
+ * that it was skipped because `stopOnError` halted the batch.
+ */
+export const batchCalculateResultSchema = {
+  results: z.array(
+    z.discriminatedUnion('status', [
+      z.object({
+        index: z.number().int(),
+        status: z.literal('ok'),
+        input: batchCalculateArgsSchema.shape.calculations.element,
+        calculationId: z.string(),
+        ...arithmeticResultShape,
+        expression: z.string(),
+      }),
+      z.object({
+        index: z.number().int(),
+        status: z.literal('error'),
+        input: batchCalculateArgsSchema.shape.calculations.element,
+        error: batchItemErrorSchema,
+      }),
+      z.object({
+        index: z.number().int(),
+        status: z.literal('skipped'),
+        input: batchCalculateArgsSchema.shape.calculations.element,
+      }),
+    ]),
+  ),
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+  skipped: z.number().int(),
+};
+
 /**
  * Zod schema for the 'advanced_calculate' tool arguments.
  * Validates scientific and mathematical operations.
@@ -190,10 +590,573 @@ export const advancedCalculateArgsSchema = z.object({
   operation: z
     .enum(['factorial', 'power', 'sqrt', 'log', 'sin', 'cos', 'tan'])
     .describe('Advanced operation'),
-  value: z.number().describe('Input value'),
-  base: z.number().optional().describe('Base for power or logarithm operations'),
+  value: operandSchema.describe('Input value (number or variable name)'),
+  base: operandSchema.optional().describe('Base for power or logarithm operations'),
+  precision: precisionModeSchema.optional(),
+  digits: precisionDigitsSchema.optional(),
+});
+
+/**
+ * Structured output of the 'advanced_calculate' tool, as a raw shape for `outputSchema`.
+ */
+export const advancedCalculateResultSchema = {
+  calculationId: z.string(),
+  operation: advancedCalculateArgsSchema.shape.operation,
+  value: z.string().describe('Input value as used, with variables resolved'),
+  base: z.string().optional(),
+  ...arithmeticResultShape,
+  expression: z.string().describe('The calculation as text, e.g. "factorial(5) = 120"'),
+};
+
+/**
+ * Zod schema for the 'set_precision' tool arguments.
+ * Sets the session-wide default precision used when a call does not specify one.
+ */
+export const setPrecisionArgsSchema = z.object({
+  mode: precisionModeSchema,
+  digits: precisionDigitsSchema.optional(),
+});
+
+/**
+ * Zod schema for the 'set_locale' tool arguments.
+ * Any BCP 47 tag of a supported language is accepted, e.g. `de`, `de-AT` or `tr-TR`.
+ */
+export const setLocaleArgsSchema = z.object({
+  locale: z
+    .string()
+    .min(1)
+    .describe(`Language tag, e.g. "de-DE" or "tr"; supported: ${SUPPORTED_LOCALES.join(', ')}`),
+});
+
+/**
+ * Longest expression, equation or function body a tool accepts.
+ * WHY: Parsing and evaluating recurse once per nesting level, so a longer text could nest
+ * deeply enough to overflow the stack.
+ */
+export const MAX_EXPRESSION_LENGTH = 1000;
+
+/**
+ * Zod schema for the 'evaluate_expression' tool arguments.
+ * Validates a full infix expression and optional variable bindings.
+ */
+export const evaluateExpressionArgsSchema = z.object({
+  expression: z
+    .string()
+    .min(1)
+    .max(MAX_EXPRESSION_LENGTH)
+    .describe('Infix expression, e.g. "(3 + 4) * sqrt(2) / x". Supports + - * / ^ and parentheses'),
+  variables: z
+    .record(z.number())
+    .optional()
+    .describe(
+      'Values for variables referenced in the expression, e.g. { "x": 2 }. These override session variables',
+    ),
+});
+
+/**
+ * Zod schema for the 'set_variable' tool arguments.
+ * The value may be a literal number or an expression evaluated against the current variables.
+ */
+export const setVariableArgsSchema = z.object({
+  name: variableNameSchema.describe('Variable name, e.g. "x"'),
+  value: z
+    .union([z.number(), z.string().min(1).max(MAX_EXPRESSION_LENGTH)])
+    .describe(
+      'A number, or an expression evaluated against the session variables (e.g. "ans * 2")',
+    ),
+});
+
+/**
+ * Zod schema for the 'clear_variables' tool arguments.
+ */
+export const clearVariablesArgsSchema = z.object({
+  names: z
+    .array(variableNameSchema)
+    .optional()
+    .describe('Variables to remove. Omit to clear all variables'),
+});
+
+/**
+ * Zod schema for the 'memory' tool arguments.
+ * Models the classic calculator memory keys: MS, M+, M-, MR and MC.
+ */
+export const memoryArgsSchema = z.object({
+  action: z
+    .enum(['store', 'add', 'subtract', 'recall', 'clear'])
+    .describe('MS (store), M+ (add), M- (subtract), MR (recall) or MC (clear)'),
+  value: operandSchema
+    .optional()
+    .describe('Operand for store/add/subtract. Defaults to the latest result (ans)'),
+});
+
+/**
+ * Zod schema for the 'convert_units' tool arguments.
+ */
+export const convertUnitsArgsSchema = z.object({
+  value: operandSchema.describe('Value to convert (number or variable name)'),
+  from: z.string().min(1).max(50).describe('Unit of the value, e.g. "km/h" or "degF"'),
+  to: z.string().min(1).max(50).describe('Target unit, e.g. "m/s" or "degC"'),
+});
+
+/**
+ * Zod schema for the 'statistics' tool arguments.
+ * Without `data`, the tool analyses the results of the session's calculation history.
+ */
+export const statisticsArgsSchema = z.object({
+  data: z
+    .array(z.number().finite())
+    .min(1)
+    .max(10000)
+    .optional()
+    .describe('Data set to analyse; omit to analyse the results of the calculation history'),
+  x: z
+    .array(z.number().finite())
+    .max(10000)
+    .optional()
+    .describe(
+      'Independent values for linear regression, one per data point (default 1, 2, 3, ...)',
+    ),
+  operation: z
+    .string()
+    .optional()
+    .describe('When analysing history: only include calculations with this operation'),
+  last: z
+    .number()
+    .int()
+    .min(1)
+    .max(10000)
+    .optional()
+    .describe('When analysing history: only include the N most recent matching calculations'),
+  percentiles: z
+    .array(z.number().min(0).max(100))
+    .max(20)
+    .optional()
+    .describe('Percentiles to report, between 0 and 100 (default 25, 50, 75)'),
+});
+
+/** Largest number of rows or columns accepted by `matrix_calculate`. */
+export const MAX_MATRIX_SIZE = 20;
+
+/**
+ * Zod schema for a matrix: between 1 and `MAX_MATRIX_SIZE` rows of equal length.
+ */
+export const matrixSchema = z
+  .array(z.array(z.number().finite()).min(1).max(MAX_MATRIX_SIZE))
+  .min(1)
+  .max(MAX_MATRIX_SIZE)
+  .refine((rows) => rows.every((row) => row.length === rows[0]?.length), {
+    message: 'All rows of a matrix must have the same number of columns',
+  });
+
+/**
+ * Zod schema for a vector, e.g. the right-hand side `b` of `Ax = b`.
+ */
+export const vectorSchema = z.array(z.number().finite()).min(1).max(MAX_MATRIX_SIZE);
+
+/**
+ * Zod schema for the 'matrix_calculate' tool arguments.
+ * Only per-operand shapes are checked here; see `matrixOperandsSchema` for the checks
+ * that relate `a`, `b` and the operation.
+ */
+export const matrixCalculateArgsSchema = z.object({
+  operation: z
+    .enum(['add', 'subtract', 'multiply', 'transpose', 'determinant', 'inverse', 'solve'])
+    .describe('Matrix operation to perform'),
+  a: matrixSchema.describe('First matrix, as a list of rows, e.g. [[1, 2], [3, 4]]'),
+  b: z
+    .union([matrixSchema, vectorSchema])
+    .optional()
+    .describe(
+      'Second operand for add, subtract and multiply (matrix or vector), or the right-hand side b of Ax = b for solve',
+    ),
+});
+
+/**
+ * Dimension checks between the operands of `matrix_calculate`.
+ * WHY: `server.tool` only accepts a plain object shape, so these cross-field rules cannot be
+ * part of `matrixCalculateArgsSchema` itself; the tool handler applies this schema instead.
+ */
+export const matrixOperandsSchema = matrixCalculateArgsSchema.superRefine((args, ctx) => {
+  const rows = args.a.length;
+  const columns = args.a[0]?.length ?? 0;
+  const b = args.b;
+  const bRows = b?.length ?? 0;
+  const bColumns = b === undefined ? 0 : Array.isArray(b[0]) ? b[0].length : 1;
+  const fail = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+
+  switch (args.operation) {
+    case 'add':
+    case 'subtract':
+      if (b === undefined || bRows !== rows || bColumns !== columns || !Array.isArray(b[0])) {
+        fail(
+          `${args.operation} needs a second matrix b of the same size as a (${rows}x${columns})`,
+        );
+      }
+      break;
+    case 'multiply':
+      if (b === undefined || bRows !== columns) {
+        fail(`multiply needs b with ${columns} row(s), one per column of a`);
+      }
+      break;
+    case 'solve':
+      if (rows !== columns) {
+        fail(`solve needs a square matrix a, got ${rows}x${columns}`);
+      } else if (b === undefined || bRows !== rows) {
+        fail(`solve needs a right-hand side b with ${rows} row(s), one per row of a`);
+      }
+      break;
+    case 'determinant':
+    case 'inverse':
+    case 'transpose':
+      if (args.operation !== 'transpose' && rows !== columns) {
+        fail(`${args.operation} needs a square matrix, got ${rows}x${columns}`);
+      }
+      if (b !== undefined) {
+        fail(`${args.operation} takes a single matrix; omit b`);
+      }
+      break;
+  }
 });
 
+/**
+ * Zod schema for the 'solve_equation' tool arguments.
+ */
+export const solveEquationArgsSchema = z.object({
+  equation: z
+    .string()
+    .min(1)
+    .max(MAX_EXPRESSION_LENGTH)
+    .describe(
+      'Equation in one variable, e.g. "x^2 - 5*x + 6 = 0" or "cos(x) = x". Without "=", the expression is set equal to 0',
+    ),
+  variable: variableNameSchema.optional().describe('Variable to solve for (default x)'),
+  method: z
+    .enum(['auto', 'bisection', 'newton'])
+    .optional()
+    .describe(
+      'auto (default) solves polynomials exactly or with a polynomial root finder and falls back to numeric methods',
+    ),
+  interval: z
+    .tuple([z.number().finite(), z.number().finite()])
+    .optional()
+    .describe('Interval [a, b] in which the equation changes sign, for bisection'),
+  initialGuess: z.number().finite().optional().describe("Starting point for Newton's method"),
+  tolerance: z
+    .number()
+    .min(1e-15)
+    .max(0.1)
+    .optional()
+    .describe('Stopping tolerance of the numeric methods (default 1e-10)'),
+  maxIterations: z
+    .number()
+    .int()
+    .min(1)
+    .max(10000)
+    .optional()
+    .describe('Iteration cap of the numeric methods (default 500)'),
+});
+
+/**
+ * Zod shape of the structured result of the 'solve_equation' tool.
+ */
+export const solveEquationResultSchema = {
+  calculationId: z.string(),
+  equation: z.string().describe('Canonical form of the equation'),
+  variable: z.string(),
+  status: z.enum(['solved', 'no_solution', 'infinite_solutions']),
+  method: z.enum(['constant', 'linear', 'quadratic', 'polynomial', 'bisection', 'newton']),
+  roots: z
+    .array(z.object({ real: z.number(), imaginary: z.number() }))
+    .describe('All roots found, real roots first'),
+  realRoots: z.array(z.number()),
+  degree: z.number().int().optional().describe('Degree, when the equation is a polynomial'),
+  iterations: z.number().int().optional().describe('Iterations used by a numeric method'),
+};
+
+/**
+ * Zod schema for the 'evaluate_formula' tool arguments.
+ */
+export const evaluateFormulaArgsSchema = z.object({
+  name: z.string().describe('Name of a formula from formulas://library, e.g. "compound_interest"'),
+  variables: z
+    .record(z.string(), operandSchema)
+    .describe('Value of each formula variable (number or session variable name), e.g. {"P": 1000}'),
+});
+
+/** Largest number of user-defined functions a session may hold. */
+export const MAX_USER_FUNCTIONS = 20;
+
+/**
+ * Zod schema for the 'define_function' tool arguments.
+ */
+export const defineFunctionArgsSchema = z.object({
+  name: variableNameSchema.describe('Function name; it also becomes the name of the new tool'),
+  params: z
+    .array(variableNameSchema)
+    .max(10)
+    .refine((params) => new Set(params).size === params.length, {
+      message: 'Parameter names must be unique',
+    })
+    .describe('Parameter names, e.g. ["w", "h"]'),
+  body: z
+    .string()
+    .min(1)
+    .max(MAX_EXPRESSION_LENGTH)
+    .describe('Expression over the parameters, e.g. "w / h^2"'),
+  description: z.string().max(200).optional().describe('Description shown for the new tool'),
+});
+
+/**
+ * Zod schema for the 'remove_function' tool arguments.
+ */
+export const removeFunctionArgsSchema = z.object({
+  name: variableNameSchema.describe('Name of the user-defined function to remove'),
+});
+
+/** Largest number of resource subscriptions per session. */
+export const MAX_SUBSCRIPTIONS = 100;
+
+/** Largest number of plots kept per session; older ones are dropped first. */
+export const MAX_SESSION_PLOTS = 10;
+
+/**
+ * Zod schema for the 'plot_function' tool arguments.
+ * `from < to` and `yMin < yMax` are checked when the plot is drawn.
+ */
+export const plotFunctionArgsSchema = z.object({
+  expressions: z
+    .array(z.string().min(1).max(200))
+    .min(1)
+    .max(5)
+    .describe('Expressions to plot, in evaluate_expression syntax, e.g. ["sin(x)", "x^2 / 10"]'),
+  variable: variableNameSchema
+    .optional()
+    .describe('Variable plotted along the x-axis (default: x)'),
+  from: z.number().finite().describe('Start of the x range'),
+  to: z.number().finite().describe('End of the x range'),
+  samples: z
+    .number()
+    .int()
+    .min(2)
+    .max(1000)
+    .optional()
+    .describe('Points sampled per expression (default: 200)'),
+  yMin: z.number().finite().optional().describe('Bottom of the y range (default: automatic)'),
+  yMax: z.number().finite().optional().describe('Top of the y range (default: automatic)'),
+  title: z.string().max(100).optional().describe('Chart title (default: the expressions)'),
+  width: z.number().int().min(200).max(2000).optional().describe('Width in pixels (default: 640)'),
+  height: z
+    .number()
+    .int()
+    .min(150)
+    .max(2000)
+    .optional()
+    .describe('Height in pixels (default: 400)'),
+});
+
+/**
+ * Zod schema for the 'undo_calculation' and 'redo_calculation' tool arguments.
+ */
+export const historyStepArgsSchema = z.object({
+  steps: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .describe('Number of calculations to undo or redo (default 1)'),
+});
+
+/**
+ * Zod schema for the 'delete_calculation' tool arguments.
+ */
+export const deleteCalculationArgsSchema = z.object({
+  calculationId: z.string().describe('ID of the calculation to remove from history'),
+});
+
+/**
+ * Zod schema for a point in time given in a URI: epoch milliseconds or an ISO 8601 date.
+ */
+const uriTimestampSchema = z.string().transform((value, ctx) => {
+  const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Expected epoch milliseconds or an ISO 8601 date',
+    });
+    return z.NEVER;
+  }
+  return timestamp;
+});
+
+/**
+ * Zod schema for the query parameters of the paginated `calculator://history` resource.
+ * URI parameters are strings, so numbers are coerced.
+ */
+export const historyQuerySchema = z
+  .object({
+    cursor: z.string().max(500).optional(),
+    operation: z.string().max(100).optional(),
+    since: uriTimestampSchema.optional(),
+    until: uriTimestampSchema.optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+  })
+  .strict();
+
+/**
+ * Zod schema for the file formats history can be exported in.
+ */
+export const historyExportFormatSchema = z
+  .enum(['csv', 'ndjson', 'json'])
+  .default('csv')
+  .describe(
+    'csv (one row per calculation, with a header), ndjson (one JSON object per line) or json',
+  );
+
+/**
+ * Zod schema for the 'export_history' tool arguments.
+ */
+export const exportHistoryArgsSchema = z.object({
+  format: historyExportFormatSchema,
+});
+
+/**
+ * Zod schema for the query parameters of the `calculator://history/export` resource.
+ */
+export const historyExportQuerySchema = z.object({ format: historyExportFormatSchema }).strict();
+
+/** Largest number of calculations `import_history` accepts at once. */
+export const MAX_IMPORT_ROWS = 10000;
+
+/**
+ * Zod schema for the 'import_history' tool arguments.
+ */
+export const importHistoryArgsSchema = z.object({
+  data: z
+    .string()
+    .min(1)
+    .max(5_000_000)
+    .describe('A history previously exported with export_history, in the given format'),
+  format: historyExportFormatSchema,
+  mode: z
+    .enum(['verify', 'replace'])
+    .default('verify')
+    .describe(
+      'verify: replay every calculation and report differences without changing the session; ' +
+        'replace: also replace the session history with the replayed calculations',
+    ),
+});
+
+/**
+ * Zod schema for one calculation of an import whose replay did not reproduce its result.
+ */
+export const replayDifferenceSchema = z.object({
+  index: z.number().int().describe('Position of the calculation in the import, from 0'),
+  id: z.string(),
+  operation: z.string(),
+  status: z
+    .enum(['mismatch', 'error', 'skipped'])
+    .describe(
+      'mismatch: a different result; error: the operation failed; skipped: it cannot be replayed',
+    ),
+  expected: z.string().describe('Result in the import'),
+  actual: z.string().optional().describe('Result of the replay'),
+  message: z.string().optional(),
+});
+
+/**
+ * Structured output of the 'import_history' tool, as a raw shape for `outputSchema`.
+ */
+export const importHistoryResultSchema = {
+  mode: importHistoryArgsSchema.shape.mode.removeDefault(),
+  total: z.number().int(),
+  matched: z.number().int(),
+  mismatched: z.number().int(),
+  failed: z.number().int(),
+  skipped: z.number().int(),
+  /** Calculations now in the session history; always 0 when verifying */
+  imported: z.number().int(),
+  differences: z.array(replayDifferenceSchema),
+};
+
+/** Longest word problem, in characters, that 'solve_word_problem' passes to the client's model. */
+export const MAX_WORD_PROBLEM_LENGTH = 2000;
+
+/** Most steps a word problem's plan may have. */
+export const MAX_WORD_PROBLEM_STEPS = 20;
+
+/**
+ * Zod schema for the 'solve_word_problem' tool arguments.
+ */
+export const solveWordProblemArgsSchema = z.object({
+  problem: z
+    .string()
+    .trim()
+    .min(1)
+    .max(MAX_WORD_PROBLEM_LENGTH)
+    .describe('The problem in words, e.g. "3 boxes of 12 eggs, 5 are broken. How many are left?"'),
+  precision: precisionModeSchema.optional(),
+  digits: precisionDigitsSchema.optional(),
+});
+
+/**
+ * Zod schema for an operand in a word problem's plan: a number, or a `$N` reference to the
+ * result of step `N` (zero-based) of the same plan.
+ * @remarks Unlike the operands of 'batch_calculate', session variables are not allowed: the
+ * model that writes the plan does not know them.
+ */
+export const wordProblemOperandSchema = z.union([
+  z.number().finite(),
+  z.string().regex(/^\$\d+$/, 'Must be a number or a reference to an earlier step, e.g. "$0"'),
+]);
+
+/**
+ * Zod schema for one step of a word problem's plan. Steps have the arguments of the
+ * 'calculate' or the 'advanced_calculate' tool, depending on the operation.
+ */
+export const wordProblemStepSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: calculateArgsSchema.shape.op,
+    a: wordProblemOperandSchema,
+    b: wordProblemOperandSchema,
+    description: z.string().optional(),
+  }),
+  z.object({
+    op: advancedCalculateArgsSchema.shape.operation,
+    value: wordProblemOperandSchema,
+    base: wordProblemOperandSchema.optional(),
+    description: z.string().optional(),
+  }),
+]);
+
+/**
+ * Zod schema for the plan the client's model returns for a word problem. The result of the
+ * last step is the answer.
+ */
+export const wordProblemPlanSchema = z.object({
+  steps: z.array(wordProblemStepSchema).min(1).max(MAX_WORD_PROBLEM_STEPS),
+});
+
+/**
+ * Structured output of the 'solve_word_problem' tool, as a raw shape for `outputSchema`.
+ * Problems that could not be planned (`status` other than `solved`) have no steps and say
+ * why in `reason`.
+ */
+export const solveWordProblemResultSchema = {
+  status: z.enum(['solved', 'sampling_unavailable', 'sampling_failed']),
+  reason: z.string().optional(),
+  model: z.string().optional().describe('The client model that planned the calculations'),
+  steps: z.array(
+    z.object({
+      index: z.number().int(),
+      description: z.string().optional(),
+      calculationId: z.string(),
+      ...arithmeticResultShape,
+      expression: z.string().describe('The step as text, e.g. "3 multiply 12 = 36"'),
+    }),
+  ),
+};
+
 /**
  * Zod schema for the 'demo_progress' tool arguments.
  * Validates parameters for the progress notification demonstration.
@@ -202,6 +1165,14 @@ export const demoProgressArgsSchema = z.object({
   steps: z.number().default(5).describe('Number of progress steps'),
 });
 
+/**
+ * Structured output of the 'demo_progress' tool, as a raw shape for `outputSchema`.
+ */
+export const demoProgressResultSchema = {
+  steps: z.number(),
+  durationMs: z.number().describe('Wall-clock time the demonstration took'),
+};
+
 /**
  * Zod schema for the sample educational tool.
  * This is used when SAMPLE_TOOL_NAME environment variable is set.
@@ -218,7 +1189,99 @@ export const sampleToolArgsSchema = z.object({
  * These schemas validate arguments passed to registered prompts.
  * Prompts are templates that help clients generate appropriate requests
  * to the MCP server's tools and resources.
+ *
+ * WHY: Prompt arguments are always strings, often typed by hand. The schemas normalize them
+ * (case, surrounding whitespace) and reject anything else with a message that lists what is
+ * accepted. The SDK requires string outputs for prompt arguments, so numbers and booleans
+ * are normalized to their canonical string form rather than converted.
+ */
+
+/** Explanation levels of the 'explain-calculation' prompt. */
+export const EXPLANATION_LEVELS = ['basic', 'intermediate', 'advanced'] as const;
+
+/** Difficulty levels of the 'generate-problems' prompt. */
+export const PROBLEM_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+/** Largest number of problems the 'generate-problems' prompt asks for. */
+export const MAX_GENERATED_PROBLEMS = 20;
+
+/** Accepted spellings of a boolean prompt argument, by the value they stand for. */
+const PROMPT_BOOLEANS = {
+  true: ['true', 'yes', 'y', '1', 'on'],
+  false: ['false', 'no', 'n', '0', 'off'],
+} as const;
+
+/**
+ * Common topics of the 'generate-problems' prompt, offered as completions. Other topics are
+ * accepted too.
  */
+export const PROBLEM_TOPICS = [
+  'arithmetic',
+  'fractions',
+  'decimals',
+  'percentages',
+  'ratios',
+  'algebra',
+  'equations',
+  'geometry',
+  'trigonometry',
+  'statistics',
+  'probability',
+  'calculus',
+] as const;
+
+/**
+ * A prompt argument with a fixed set of values, matched ignoring case and surrounding
+ * whitespace.
+ */
+function promptChoiceSchema<T extends string>(values: readonly [T, ...T[]]) {
+  return z
+    .string()
+    .trim()
+    .toLowerCase()
+    .pipe(
+      z.enum(values, { errorMap: () => ({ message: `Must be one of: ${values.join(', ')}` }) }),
+    );
+}
+
+/**
+ * An optional prompt argument with a fixed set of values, `fallback` when the client omits it.
+ * WHY: The SDK only completes an argument whose schema is a `Completable`, and types those as
+ * giving a string, never `undefined`. Filling in the default here keeps the argument optional
+ * for clients while the schema always gives one of `values`.
+ */
+function optionalPromptChoiceSchema<T extends string>(values: readonly [T, ...T[]], fallback: T) {
+  return z
+    .custom<string>((value) => value === undefined || typeof value === 'string')
+    .transform((value: string | undefined) => value ?? fallback)
+    .pipe(promptChoiceSchema(values));
+}
+
+/**
+ * A whole-number prompt argument from `min` to `max`, normalized without leading zeros
+ * (e.g. `' 05'` becomes `'5'`).
+ */
+function promptIntegerSchema(min: number, max: number) {
+  return (
+    z
+      .string()
+      .trim()
+      .regex(/^\d+$/, 'Must be a whole number')
+      // Only a whole number can be out of range; anything else has been reported already
+      .refine((value) => !/^\d+$/.test(value) || (Number(value) >= min && Number(value) <= max), {
+        message: `Must be between ${min} and ${max}`,
+      })
+      .transform((value) => String(Number(value)))
+  );
+}
+
+/** A yes/no prompt argument, normalized to `'true'` or `'false'`. */
+const promptBooleanSchema = promptChoiceSchema([
+  ...PROMPT_BOOLEANS.true,
+  ...PROMPT_BOOLEANS.false,
+]).transform((value) =>
+  PROMPT_BOOLEANS.true.some((known) => known === value) ? ('true' as const) : ('false' as const),
+);
 
 /**
  * Zod schema for the 'explain-calculation' prompt arguments.
@@ -226,7 +1289,9 @@ export const sampleToolArgsSchema = z.object({
  */
 export const explainCalculationArgsSchema = z.object({
   operation: z.string().describe('The calculation to explain'),
-  level: z.string().optional().describe('Explanation level: basic, intermediate, advanced'),
+  level: optionalPromptChoiceSchema(EXPLANATION_LEVELS, 'basic').describe(
+    `Explanation level: ${EXPLANATION_LEVELS.join(', ')} (default: basic)`,
+  ),
 });
 
 /**
@@ -235,8 +1300,12 @@ export const explainCalculationArgsSchema = z.object({
  */
 export const generateProblemsArgsSchema = z.object({
   topic: z.string().describe('Math topic (e.g., "fractions", "algebra", "geometry")'),
-  difficulty: z.string().describe('Difficulty level: easy, medium, hard'),
-  count: z.string().describe('Number of problems to generate'),
+  difficulty: promptChoiceSchema(PROBLEM_DIFFICULTIES).describe(
+    `Difficulty level: ${PROBLEM_DIFFICULTIES.join(', ')}`,
+  ),
+  count: promptIntegerSchema(1, MAX_GENERATED_PROBLEMS).describe(
+    `Number of problems to generate (1-${MAX_GENERATED_PROBLEMS})`,
+  ),
 });
 
 /**
@@ -245,7 +1314,7 @@ export const generateProblemsArgsSchema = z.object({
  */
 export const solveMathProblemArgsSchema = z.object({
   problem: z.string().describe('The problem to solve'),
-  showWork: z.string().describe('Show detailed work'),
+  showWork: promptBooleanSchema.describe('Show detailed work: true or false (also yes/no, 1/0)'),
 });
 
 /**
@@ -265,6 +1334,25 @@ export const calculatorAssistantArgsSchema = z.object({
   query: z.string().describe('What you need help calculating'),
 });
 
+/** Largest number of calculations a session-aware prompt embeds. */
+export const MAX_PROMPT_CALCULATIONS = 100;
+
+/**
+ * Zod schema for the arguments of the session-aware prompts ('review-my-calculations' and
+ * 'summarize-session'). Prompt arguments are always strings.
+ */
+export const sessionPromptArgsSchema = z.object({
+  last: promptIntegerSchema(1, MAX_PROMPT_CALCULATIONS)
+    .optional()
+    .describe(
+      `Number of most recent calculations to include (default 10, at most ${MAX_PROMPT_CALCULATIONS})`,
+    ),
+  operations: z
+    .string()
+    .optional()
+    .describe('Comma-separated operations to include, e.g. "add,multiply" (default: all)'),
+});
+
 // =================================================================
 // TYPE INFERENCE FROM ZOD SCHEMAS
 // =================================================================
@@ -278,7 +1366,38 @@ export const calculatorAssistantArgsSchema = z.object({
 export type CalculateArgs = z.infer<typeof calculateArgsSchema>;
 export type BatchCalculateArgs = z.infer<typeof batchCalculateArgsSchema>;
 export type AdvancedCalculateArgs = z.infer<typeof advancedCalculateArgsSchema>;
+export type EvaluateExpressionArgs = z.infer<typeof evaluateExpressionArgsSchema>;
+export type SetVariableArgs = z.infer<typeof setVariableArgsSchema>;
+export type ClearVariablesArgs = z.infer<typeof clearVariablesArgsSchema>;
+export type MemoryArgs = z.infer<typeof memoryArgsSchema>;
+export type Operand = z.infer<typeof operandSchema>;
+export type BatchOperand = z.infer<typeof batchOperandSchema>;
+export type BatchItemError = z.infer<typeof batchItemErrorSchema>;
+export type ConvertUnitsArgs = z.infer<typeof convertUnitsArgsSchema>;
+export type MatrixCalculateArgs = z.infer<typeof matrixCalculateArgsSchema>;
+export type DefineFunctionArgs = z.infer<typeof defineFunctionArgsSchema>;
+export type RemoveFunctionArgs = z.infer<typeof removeFunctionArgsSchema>;
+export type PlotFunctionArgs = z.infer<typeof plotFunctionArgsSchema>;
+export type EvaluateFormulaArgs = z.infer<typeof evaluateFormulaArgsSchema>;
+export type SolveEquationArgs = z.infer<typeof solveEquationArgsSchema>;
+export type StatisticsArgs = z.infer<typeof statisticsArgsSchema>;
+export type SetPrecisionArgs = z.infer<typeof setPrecisionArgsSchema>;
+export type SetLocaleArgs = z.infer<typeof setLocaleArgsSchema>;
+export type HistoryStepArgs = z.infer<typeof historyStepArgsSchema>;
+export type DeleteCalculationArgs = z.infer<typeof deleteCalculationArgsSchema>;
+export type HistoryQuery = z.infer<typeof historyQuerySchema>;
+export type HistoryExportFormat = z.infer<typeof historyExportFormatSchema>;
+export type ExportHistoryArgs = z.infer<typeof exportHistoryArgsSchema>;
+export type ImportHistoryArgs = z.infer<typeof importHistoryArgsSchema>;
+export type ReplayDifference = z.infer<typeof replayDifferenceSchema>;
+export type ImportHistoryResult = z.infer<z.ZodObject<typeof importHistoryResultSchema>>;
+export type SolveWordProblemArgs = z.infer<typeof solveWordProblemArgsSchema>;
+export type WordProblemOperand = z.infer<typeof wordProblemOperandSchema>;
+export type WordProblemStep = z.infer<typeof wordProblemStepSchema>;
+export type WordProblemPlan = z.infer<typeof wordProblemPlanSchema>;
+export type SolveWordProblemResult = z.infer<z.ZodObject<typeof solveWordProblemResultSchema>>;
 export type DemoProgressArgs = z.infer<typeof demoProgressArgsSchema>;
+export type BatchCalculateResult = z.infer<z.ZodObject<typeof batchCalculateResultSchema>>;
 export type SampleToolArgs = z.infer<typeof sampleToolArgsSchema>;
 
 export type ExplainCalculationArgs = z.infer<typeof explainCalculationArgsSchema>;
@@ -286,6 +1405,9 @@ export type GenerateProblemsArgs = z.infer<typeof generateProblemsArgsSchema>;
 export type SolveMathProblemArgs = z.infer<typeof solveMathProblemArgsSchema>;
 export type ExplainFormulaArgs = z.infer<typeof explainFormulaArgsSchema>;
 export type CalculatorAssistantArgs = z.infer<typeof calculatorAssistantArgsSchema>;
+export type SessionPromptArgs = z.infer<typeof sessionPromptArgsSchema>;
+export type ExplanationLevel = (typeof EXPLANATION_LEVELS)[number];
+export type ProblemDifficulty = (typeof PROBLEM_DIFFICULTIES)[number];
 
 // =================================================================
 // CONFIGURATION TYPES
@@ -321,6 +1443,21 @@ export interface ServerConfig {
     windowMs: number;
     max: number;
   };
+
+  /** Number of calculations kept in a session's history before the oldest are evicted */
+  historySize: number;
+
+  /**
+   * Where evicted calculations go: dropped (`none`), a Redis hash per session (`redis`,
+   * requires `useRedis`), or an NDJSON file per session (`file`)
+   */
+  historyArchive: 'none' | 'redis' | 'file';
+
+  /** Directory of the `file` history archive */
+  historyArchiveDir: string;
+
+  /** Retention of the `redis` history archive in milliseconds */
+  historyArchiveTtl: number;
 }
 
 // =================================================================
@@ -339,7 +1476,8 @@ export class CalculatorServerError extends McpError {
     message: string,
     public readonly context?: unknown,
   ) {
-    super(code, message, context);
+    // Errors are created where the session is unknown; see `localeContext` in locale.ts
+    super(code, localizeMessage(message), context);
     this.name = this.constructor.name;
   }
 }
@@ -372,3 +1510,172 @@ export class StorageOperationFailedError extends CalculatorServerError {
     super(ErrorCode.InternalError, message, context);
   }
 }
+
+/**
+ * @summary Thrown when the client cancels a running tool call or disconnects from it.
+ * @remarks Tools check for cancellation before persisting, so this error guarantees that the
+ * session was left untouched. `RequestTimeout` is the code the SDK itself uses for requests
+ * that were given up on before completing.
+ */
+export class OperationCancelledError extends CalculatorServerError {
+  constructor(reason?: unknown) {
+    super(
+      ErrorCode.RequestTimeout,
+      `Request cancelled${typeof reason === 'string' && reason !== '' ? ` (${reason})` : ''}; no changes were saved`,
+      { reason: typeof reason === 'string' ? reason : undefined },
+    );
+  }
+}
+
+/**
+ * @summary Thrown when a tool references a session variable that is not defined.
+ * @remarks This is a caller mistake rather than a server fault, so it maps to `InvalidParams`.
+ */
+export class VariableNotFoundError extends CalculatorServerError {
+  constructor(public readonly variable: string) {
+    super(ErrorCode.InvalidParams, `Variable '${variable}' is not defined`, { variable });
+  }
+}
+
+/**
+ * @summary Thrown when an arithmetic operation receives invalid input.
+ * @remarks Covers division by zero, mathematical domain violations and inputs that a precision
+ * mode cannot handle exactly. The plain `reason` (without the protocol's `MCP error` prefix)
+ * is kept so batch tools can report it per item.
+ */
+export class ArithmeticError extends CalculatorServerError {
+  public readonly reason: string;
+
+  constructor(reason: string, context?: unknown) {
+    super(ErrorCode.InvalidParams, reason, context);
+    // In the same language as the message
+    this.reason = localizeMessage(reason);
+  }
+}
+
+/**
+ * @summary Thrown for unknown units, malformed unit expressions or incompatible dimensions.
+ * @remarks Mixing dimensions (e.g. adding kilometres to seconds) is a caller mistake, so
+ * this maps to `InvalidParams`. The context names the units involved.
+ */
+export class UnitError extends CalculatorServerError {
+  constructor(message: string, context?: { unit?: string; from?: string; to?: string }) {
+    super(ErrorCode.InvalidParams, message, context);
+  }
+}
+
+/**
+ * @summary Thrown when the operands of a matrix operation have incompatible dimensions.
+ * @remarks Shapes are validated by `matrixOperandsSchema`; this carries the first violated
+ * rule as its message and maps to `InvalidParams`.
+ */
+export class MatrixDimensionError extends CalculatorServerError {
+  constructor(message: string, context?: { operation: string; issues: string[] }) {
+    super(ErrorCode.InvalidParams, message, context);
+  }
+}
+
+/**
+ * @summary Thrown for unknown formulas or invalid formula variables.
+ * @remarks Missing, unexpected and out-of-range variables are caller mistakes, so this maps
+ * to `InvalidParams`. The context names the formula and, where known, the variable.
+ */
+export class FormulaError extends CalculatorServerError {
+  constructor(message: string, context?: { formula: string; variable?: string }) {
+    super(ErrorCode.InvalidParams, message, context);
+  }
+}
+
+/**
+ * @summary Thrown when a user-defined function cannot be defined, found or removed.
+ * @remarks Covers name clashes with built-in tools, bodies referencing unknown names and
+ * the per-session limit. These are caller mistakes, so this maps to `InvalidParams`.
+ */
+export class FunctionDefinitionError extends CalculatorServerError {
+  constructor(message: string, context?: { name: string }) {
+    super(ErrorCode.InvalidParams, message, context);
+  }
+}
+
+/**
+ * @summary Thrown when the query parameters of a `calculator://history` resource, such as the
+ * filters, the cursor or the export format, are malformed.
+ */
+export class HistoryQueryError extends CalculatorServerError {
+  constructor(message: string, context?: unknown) {
+    super(ErrorCode.InvalidParams, message, context);
+  }
+}
+
+/**
+ * @summary Thrown when data passed to `import_history` is not a valid history export.
+ * @remarks Calculations that parse but cannot be replayed are reported by the tool instead.
+ */
+export class HistoryImportError extends CalculatorServerError {
+  constructor(message: string, context?: unknown) {
+    super(ErrorCode.InvalidParams, message, context);
+  }
+}
+
+/**
+ * @summary Thrown when a plot cannot be drawn because its ranges are empty or inverted.
+ * @remarks Problems with the expressions themselves surface as `ExpressionError` instead.
+ */
+export class PlotError extends CalculatorServerError {
+  constructor(message: string, context?: unknown) {
+    super(ErrorCode.InvalidParams, message, context);
+  }
+}
+
+/**
+ * @summary Thrown when `set_locale` is asked for a locale that is not supported.
+ * @remarks The message lists the supported locales, so the caller can pick one.
+ */
+export class LocaleError extends CalculatorServerError {
+  constructor(public readonly locale: string) {
+    super(
+      ErrorCode.InvalidParams,
+      `Unsupported locale '${locale}'; supported locales: ${SUPPORTED_LOCALES.join(', ')}`,
+      { locale },
+    );
+  }
+}
+
+/**
+ * @summary Thrown when the plan the client's model returned for a word problem is unusable.
+ * @remarks Covers replies that are not a valid plan and plans whose arithmetic fails. The
+ * caller's arguments were fine and the server is not at fault either, so this maps to
+ * `InvalidRequest`; asking again may well succeed.
+ */
+export class WordProblemError extends CalculatorServerError {
+  constructor(message: string, context?: { step?: number }) {
+    super(ErrorCode.InvalidRequest, message, context);
+  }
+}
+
+/**
+ * @summary Thrown when a tool needs to ask the user a question while another question of the
+ * session is still waiting for an answer.
+ * @remarks The client can only show one question at a time; the call can be retried once the
+ * other question has been answered.
+ */
+export class ElicitationError extends CalculatorServerError {
+  constructor(message: string) {
+    super(ErrorCode.InvalidRequest, message);
+  }
+}
+
+/**
+ * @summary Thrown when an infix expression cannot be parsed or evaluated.
+ * @remarks Covers syntax errors, unknown variables or functions, and mathematical domain
+ * violations (e.g. division by zero). All of these are caused by the caller's input, so the
+ * error maps to `InvalidParams`. The context carries details such as the failing position.
+ */
+export class ExpressionError extends CalculatorServerError {
+  constructor(
+    message: string,
+    context?: { position?: number; variable?: string; function?: string },
+  ) {
+    super(ErrorCode.InvalidParams, message, context);
+  }
+}
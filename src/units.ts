@@ -0,0 +1,448 @@
+/**
+ * @file src/units.ts
+ * @description Unit-aware quantities and conversions for the `calculate` and `convert_units`
+ * tools. Quantities such as `5 km` or `60 km/h` are parsed into a magnitude plus a unit
+ * expression, and every unit is described by its factor to SI and its dimension.
+ *
+ * WHY: Engineering users constantly ask for unit conversions and mixed-unit arithmetic.
+ * Doing that by hand with `multiply` is error-prone, and nothing stops `5 km + 3 s`.
+ * Dimensional analysis catches such mistakes before a wrong number reaches the user.
+ *
+ * Key Error Handling Ideas:
+ * - Unknown units, malformed unit expressions and dimension mismatches all throw a
+ *   `UnitError`, which maps to `InvalidParams` because they are caused by the caller's input.
+ */
+
+import { UnitError, ArithmeticError } from './types.js';
+import { formatNumber } from './locale.js';
+import type { Locale } from './locale.js';
+
+// =================================================================
+// DIMENSIONS
+// =================================================================
+
+/**
+ * Exponents of the SI base dimensions, in the order:
+ * length (m), mass (kg), time (s), electric current (A), temperature (K), amount (mol).
+ */
+type Dimension = readonly [number, number, number, number, number, number];
+
+const BASE_SYMBOLS = ['m', 'kg', 's', 'A', 'K', 'mol'] as const;
+
+const dim = (l = 0, m = 0, t = 0, i = 0, k = 0, n = 0): Dimension => [l, m, t, i, k, n];
+
+const DIMENSIONLESS = dim();
+const LENGTH = dim(1);
+const MASS = dim(0, 1);
+const TIME = dim(0, 0, 1);
+const AREA = dim(2);
+const VOLUME = dim(3);
+const SPEED = dim(1, 0, -1);
+const FORCE = dim(1, 1, -2);
+const ENERGY = dim(2, 1, -2);
+const POWER = dim(2, 1, -3);
+const PRESSURE = dim(-1, 1, -2);
+const TEMPERATURE = dim(0, 0, 0, 0, 1);
+
+/** Human-readable names used in error messages for common dimensions. */
+const DIMENSION_NAMES: Array<[Dimension, string]> = [
+  [DIMENSIONLESS, 'dimensionless'],
+  [LENGTH, 'length'],
+  [MASS, 'mass'],
+  [TIME, 'time'],
+  [AREA, 'area'],
+  [VOLUME, 'volume'],
+  [SPEED, 'speed'],
+  [dim(1, 0, -2), 'acceleration'],
+  [FORCE, 'force'],
+  [ENERGY, 'energy'],
+  [POWER, 'power'],
+  [PRESSURE, 'pressure'],
+  [TEMPERATURE, 'temperature'],
+  [dim(0, 0, 0, 1), 'electric current'],
+  [dim(0, 0, 0, 0, 0, 1), 'amount of substance'],
+];
+
+// =================================================================
+// UNIT TABLE
+// =================================================================
+
+/**
+ * A named unit. `factor` converts a value in this unit to SI; `offset` is only used by
+ * temperature scales whose zero differs from absolute zero (SI = value * factor + offset).
+ */
+interface UnitDefinition {
+  factor: number;
+  dimension: Dimension;
+  offset?: number;
+}
+
+const UNITS: Record<string, UnitDefinition> = {
+  // Length
+  m: { factor: 1, dimension: LENGTH },
+  km: { factor: 1000, dimension: LENGTH },
+  cm: { factor: 0.01, dimension: LENGTH },
+  mm: { factor: 0.001, dimension: LENGTH },
+  um: { factor: 1e-6, dimension: LENGTH },
+  nm: { factor: 1e-9, dimension: LENGTH },
+  in: { factor: 0.0254, dimension: LENGTH },
+  ft: { factor: 0.3048, dimension: LENGTH },
+  yd: { factor: 0.9144, dimension: LENGTH },
+  mi: { factor: 1609.344, dimension: LENGTH },
+  nmi: { factor: 1852, dimension: LENGTH },
+  // Mass
+  kg: { factor: 1, dimension: MASS },
+  g: { factor: 0.001, dimension: MASS },
+  mg: { factor: 1e-6, dimension: MASS },
+  t: { factor: 1000, dimension: MASS },
+  lb: { factor: 0.45359237, dimension: MASS },
+  oz: { factor: 0.028349523125, dimension: MASS },
+  // Time
+  s: { factor: 1, dimension: TIME },
+  ms: { factor: 0.001, dimension: TIME },
+  min: { factor: 60, dimension: TIME },
+  h: { factor: 3600, dimension: TIME },
+  d: { factor: 86400, dimension: TIME },
+  wk: { factor: 604800, dimension: TIME },
+  // Area and volume
+  ha: { factor: 10000, dimension: AREA },
+  acre: { factor: 4046.8564224, dimension: AREA },
+  L: { factor: 0.001, dimension: VOLUME },
+  mL: { factor: 1e-6, dimension: VOLUME },
+  gal: { factor: 0.003785411784, dimension: VOLUME },
+  // Speed
+  mph: { factor: 0.44704, dimension: SPEED },
+  kn: { factor: 1852 / 3600, dimension: SPEED },
+  // Force, energy, power and pressure
+  N: { factor: 1, dimension: FORCE },
+  kN: { factor: 1000, dimension: FORCE },
+  lbf: { factor: 4.4482216152605, dimension: FORCE },
+  J: { factor: 1, dimension: ENERGY },
+  kJ: { factor: 1000, dimension: ENERGY },
+  cal: { factor: 4.184, dimension: ENERGY },
+  kcal: { factor: 4184, dimension: ENERGY },
+  Wh: { factor: 3600, dimension: ENERGY },
+  kWh: { factor: 3.6e6, dimension: ENERGY },
+  W: { factor: 1, dimension: POWER },
+  kW: { factor: 1000, dimension: POWER },
+  hp: { factor: 745.6998715822702, dimension: POWER },
+  Pa: { factor: 1, dimension: PRESSURE },
+  kPa: { factor: 1000, dimension: PRESSURE },
+  bar: { factor: 100000, dimension: PRESSURE },
+  atm: { factor: 101325, dimension: PRESSURE },
+  psi: { factor: 6894.757293168361, dimension: PRESSURE },
+  // Electric current and amount of substance
+  A: { factor: 1, dimension: dim(0, 0, 0, 1) },
+  mol: { factor: 1, dimension: dim(0, 0, 0, 0, 0, 1) },
+  // Temperature
+  K: { factor: 1, dimension: TEMPERATURE },
+  degC: { factor: 1, dimension: TEMPERATURE, offset: 273.15 },
+  degF: { factor: 5 / 9, dimension: TEMPERATURE, offset: 273.15 - (32 * 5) / 9 },
+};
+
+/** Alternative spellings accepted in input, mapped to their canonical symbol. */
+const ALIASES: Record<string, string> = {
+  '°C': 'degC',
+  '°F': 'degF',
+  µm: 'um',
+  l: 'L',
+  ml: 'mL',
+  hr: 'h',
+  sec: 's',
+  day: 'd',
+  kt: 'kn',
+};
+
+/** Canonical symbols of all supported units. */
+export const UNIT_SYMBOLS = Object.keys(UNITS);
+
+// =================================================================
+// UNIT EXPRESSIONS AND QUANTITIES
+// =================================================================
+
+/**
+ * A unit expression such as `km/h`, stored as symbols with integer powers
+ * (`[{ symbol: 'km', power: 1 }, { symbol: 'h', power: -1 }]`). Empty means dimensionless.
+ */
+export type UnitExpression = Array<{ symbol: string; power: number }>;
+
+/**
+ * A magnitude together with the unit it is expressed in.
+ */
+export interface Quantity {
+  value: number;
+  unit: UnitExpression;
+}
+
+const SUPERSCRIPTS: Record<string, string> = { '²': '^2', '³': '^3', '⁻¹': '^-1' };
+
+/**
+ * Largest power of a single unit in a unit expression.
+ * WHY: Scale factors are raised to the power, so `km^400` alone would overflow to `Infinity`.
+ */
+const MAX_UNIT_POWER = 10;
+
+/**
+ * Parses a unit expression like `km/h`, `m/s^2`, `kg*m/s^2` or `m²`.
+ * Each `/` divides by the factor that directly follows it, so `kg/m/s` means kg·m⁻¹·s⁻¹.
+ * @throws {UnitError} If a unit is unknown, the expression is malformed, or a unit's power
+ * exceeds `MAX_UNIT_POWER`.
+ */
+export function parseUnit(source: string): UnitExpression {
+  let text = source.trim();
+  for (const [superscript, power] of Object.entries(SUPERSCRIPTS)) {
+    text = text.split(superscript).join(power);
+  }
+  if (text === '' || text === '1') {
+    return [];
+  }
+
+  const unit: UnitExpression = [];
+  const pattern = /\s*([*/·]?)\s*([^\s*/·^]+)(?:\^(-?\d+))?/y;
+  let index = 0;
+  while (index < text.length) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(text);
+    if (!match || match[0].trim() === '') {
+      throw new UnitError(`Malformed unit expression '${source}'`);
+    }
+    const [, separator = '', rawSymbol = '', rawPower] = match;
+    if (index === 0 && separator !== '') {
+      throw new UnitError(`Malformed unit expression '${source}'`);
+    }
+    const symbol = canonicalSymbol(rawSymbol);
+    const power = (rawPower !== undefined ? Number(rawPower) : 1) * (separator === '/' ? -1 : 1);
+    unit.push({ symbol, power });
+    index = pattern.lastIndex;
+  }
+
+  const simplified = simplify(unit).unit;
+  const excessive = simplified.find(({ power }) => Math.abs(power) > MAX_UNIT_POWER);
+  if (excessive) {
+    throw new UnitError(
+      `Unit powers are limited to ${MAX_UNIT_POWER}, got '${formatUnit([excessive])}' in '${source}'`,
+    );
+  }
+  return simplified;
+}
+
+/**
+ * Parses a quantity such as `5 km`, `60 km/h` or `-3.5e2 m`.
+ * A plain number is a dimensionless quantity.
+ * @throws {UnitError} If the text does not start with a number or the unit is invalid.
+ */
+export function parseQuantity(source: string): Quantity {
+  const match = /^\s*(-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)\s*(.*)$/.exec(source);
+  if (!match || match[1] === undefined) {
+    throw new UnitError(`Expected a quantity like "5 km", got '${source}'`);
+  }
+  return { value: Number(match[1]), unit: parseUnit(match[2] ?? '') };
+}
+
+/**
+ * Renders a unit expression, e.g. `km/h` or `kg*m/s^2`. Dimensionless units render as ''.
+ */
+export function formatUnit(unit: UnitExpression): string {
+  const part = ({ symbol, power }: { symbol: string; power: number }): string =>
+    Math.abs(power) === 1 ? symbol : `${symbol}^${Math.abs(power)}`;
+  const numerator = unit.filter((u) => u.power > 0).map(part);
+  const denominator = unit.filter((u) => u.power < 0).map(part);
+  if (denominator.length === 0) {
+    return numerator.join('*');
+  }
+  return `${numerator.length > 0 ? numerator.join('*') : '1'}/${denominator.join('/')}`;
+}
+
+/**
+ * Renders a quantity, e.g. `5.3 km`.
+ * @param locale Formats the value for display in a locale (`5,3 km`); without one the
+ * value is rendered locale-neutral, as in structured content.
+ */
+export function formatQuantity({ value, unit }: Quantity, locale?: Locale): string {
+  const symbol = formatUnit(unit);
+  const text = locale ? formatNumber(value, locale) : String(value);
+  return symbol ? `${text} ${symbol}` : text;
+}
+
+/**
+ * Converts a value between two compatible units, honoring temperature offsets.
+ * @throws {UnitError} If either unit is invalid or the dimensions differ.
+ * @throws {ArithmeticError} If the converted value is not a finite number.
+ */
+export function convertUnits(value: number, from: string, to: string): Quantity {
+  const source = parseUnit(from);
+  const target = parseUnit(to);
+  assertSameDimension(source, target, 'convert');
+
+  const sourceOffset = affineOffset(source);
+  const targetOffset = affineOffset(target);
+  const si = value * scaleOf(source) + sourceOffset;
+  return { value: requireFinite((si - targetOffset) / scaleOf(target)), unit: target };
+}
+
+/**
+ * Applies a basic arithmetic operation to two quantities with dimensional analysis.
+ * - `add`/`subtract` require matching dimensions; the result uses the unit of `a`.
+ * - `multiply`/`divide` combine the units, cancelling and merging units of the same kind
+ *   (so `3 h * 60 km/h` is `180 km`, and `30 min * 60 km/h` is `30 km`).
+ * @throws {UnitError} On incompatible dimensions or offset temperature units.
+ * @throws {ArithmeticError} On division by zero or a non-finite result.
+ */
+export function combineQuantities(
+  op: 'add' | 'subtract' | 'multiply' | 'divide',
+  a: Quantity,
+  b: Quantity,
+): Quantity {
+  for (const quantity of [a, b]) {
+    if (affineOffset(quantity.unit) !== 0) {
+      throw new UnitError(
+        'Temperature scales with an offset (degC, degF) can only be converted; use K for arithmetic',
+      );
+    }
+  }
+
+  switch (op) {
+    case 'add':
+    case 'subtract': {
+      assertSameDimension(a.unit, b.unit, op);
+      const converted = (b.value * scaleOf(b.unit)) / scaleOf(a.unit);
+      const value = op === 'add' ? a.value + converted : a.value - converted;
+      return { value: requireFinite(value), unit: a.unit };
+    }
+    case 'multiply':
+    case 'divide': {
+      const sign = op === 'multiply' ? 1 : -1;
+      const combined = [...a.unit, ...b.unit.map((u) => ({ ...u, power: u.power * sign }))];
+      const { unit, factor } = simplify(combined);
+      if (op === 'divide' && b.value === 0) {
+        throw new ArithmeticError('Division by zero is not allowed');
+      }
+      const magnitude = op === 'multiply' ? a.value * b.value : a.value / b.value;
+      return { value: requireFinite(magnitude * factor), unit };
+    }
+  }
+}
+
+/**
+ * Whether a quantity carries a unit (as opposed to being a plain number).
+ */
+export function hasUnit(quantity: Quantity): boolean {
+  return quantity.unit.length > 0;
+}
+
+// =================================================================
+// INTERNAL HELPERS
+// =================================================================
+
+/**
+ * @throws {ArithmeticError} If `value` overflowed to `Infinity` or is `NaN`.
+ */
+function requireFinite(value: number): number {
+  if (!Number.isFinite(value)) {
+    throw new ArithmeticError('Result is not a finite number');
+  }
+  return value;
+}
+
+/**
+ * @throws {UnitError} If the symbol is not a known unit.
+ */
+function canonicalSymbol(symbol: string): string {
+  const canonical = ALIASES[symbol] ?? symbol;
+  if (!Object.hasOwn(UNITS, canonical)) {
+    throw new UnitError(`Unknown unit '${symbol}'`, { unit: symbol });
+  }
+  return canonical;
+}
+
+function definitionOf(symbol: string): UnitDefinition {
+  return UNITS[symbol] as UnitDefinition;
+}
+
+function dimensionOf(unit: UnitExpression): Dimension {
+  const result: [number, number, number, number, number, number] = [0, 0, 0, 0, 0, 0];
+  for (const { symbol, power } of unit) {
+    definitionOf(symbol).dimension.forEach((exponent, i) => {
+      result[i] = (result[i] ?? 0) + exponent * power;
+    });
+  }
+  return result;
+}
+
+function scaleOf(unit: UnitExpression): number {
+  return unit.reduce((scale, { symbol, power }) => scale * definitionOf(symbol).factor ** power, 1);
+}
+
+/**
+ * The offset of a lone temperature scale like `degC`. Offsets are meaningless inside
+ * compound units, so anything other than a single unit to the first power has none.
+ */
+function affineOffset(unit: UnitExpression): number {
+  const [only] = unit;
+  if (unit.length === 1 && only && only.power === 1) {
+    return definitionOf(only.symbol).offset ?? 0;
+  }
+  return 0;
+}
+
+function sameDimension(a: Dimension, b: Dimension): boolean {
+  return a.every((exponent, i) => exponent === b[i]);
+}
+
+function describeDimension(dimension: Dimension): string {
+  const named = DIMENSION_NAMES.find(([candidate]) => sameDimension(candidate, dimension));
+  if (named) {
+    return named[1];
+  }
+  return (
+    dimension
+      .map((exponent, i) => (exponent === 0 ? '' : `${BASE_SYMBOLS[i]}^${exponent}`))
+      .filter(Boolean)
+      .join('*') || 'dimensionless'
+  );
+}
+
+/**
+ * @throws {UnitError} If the two units measure different dimensions.
+ */
+function assertSameDimension(a: UnitExpression, b: UnitExpression, action: string): void {
+  const left = dimensionOf(a);
+  const right = dimensionOf(b);
+  if (!sameDimension(left, right)) {
+    const joiner = action === 'convert' ? 'to' : 'and';
+    throw new UnitError(
+      `Incompatible units: cannot ${action} ${formatUnit(a) || 'a plain number'} (${describeDimension(left)}) ${joiner} ${formatUnit(b) || 'a plain number'} (${describeDimension(right)})`,
+      { from: formatUnit(a), to: formatUnit(b) },
+    );
+  }
+}
+
+/**
+ * Merges repeated symbols and converts units of the same kind into the first one seen,
+ * dropping anything whose power cancels to zero. Returns the factor by which the magnitude
+ * must be multiplied to compensate for the conversions.
+ */
+function simplify(unit: UnitExpression): { unit: UnitExpression; factor: number } {
+  const result: UnitExpression = [];
+  let factor = 1;
+
+  for (const { symbol, power } of unit) {
+    const definition = definitionOf(symbol);
+    const existing = result.find(
+      (u) =>
+        u.symbol === symbol ||
+        (definition.offset === undefined &&
+          definitionOf(u.symbol).offset === undefined &&
+          sameDimension(definitionOf(u.symbol).dimension, definition.dimension)),
+    );
+    if (existing) {
+      // Express this unit in terms of the existing one: 1 symbol = (f / f_existing) existing
+      factor *= (definition.factor / definitionOf(existing.symbol).factor) ** power;
+      existing.power += power;
+    } else {
+      result.push({ symbol, power });
+    }
+  }
+
+  return { unit: result.filter((u) => u.power !== 0), factor };
+}
@@ -0,0 +1,167 @@
+/**
+ * @file src/wordproblem.ts
+ * @description Planning and solving word problems for the `solve_word_problem` tool. The
+ * client's model turns the problem into a plan of calculations through MCP sampling
+ * (`sampling/createMessage`); the server then runs that plan with its own arithmetic.
+ *
+ * WHY: Language models read word problems well but make arithmetic mistakes. Letting the model
+ * decide only *what* to calculate, and the calculator *how*, gives correct results in the
+ * session's precision, and every step ends up in the history like any other calculation.
+ *
+ * The plan uses the arguments of the `calculate` and `advanced_calculate` tools, chained with
+ * `$N` references as in `batch_calculate`, so models that know the tools already know it.
+ *
+ * Key Error Handling Ideas:
+ * - A reply that is not a valid plan and a plan whose arithmetic fails both throw a
+ *   `WordProblemError` naming the problem, so the caller can simply ask again.
+ * - A plan is solved completely or not at all: the tool records nothing unless every step
+ *   succeeded.
+ */
+
+import type { CreateMessageRequest } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ArithmeticError,
+  WordProblemError,
+  MAX_WORD_PROBLEM_STEPS,
+  calculateArgsSchema,
+  advancedCalculateArgsSchema,
+  wordProblemPlanSchema,
+} from './types.js';
+import type {
+  PrecisionSettings,
+  WordProblemOperand,
+  WordProblemPlan,
+  WordProblemStep,
+} from './types.js';
+import { calculateBasic, calculateAdvanced } from './arithmetic.js';
+import type { ArithmeticOutcome } from './arithmetic.js';
+import { parseReference } from './batch.js';
+
+/** Most tokens the client's model may use for a plan; plans are short JSON documents. */
+export const SAMPLING_MAX_TOKENS = 1000;
+
+/**
+ * How long to wait for the client's model. Sampling requests travel over the session's GET
+ * SSE stream; a client without one never sees the request, so it must not wait forever.
+ */
+export const SAMPLING_TIMEOUT_MS = 60_000;
+
+/** Tells the client's model how to write a plan. */
+const SYSTEM_PROMPT = `You translate math word problems into calculations for a calculator. Do not calculate anything yourself.
+
+Reply with a JSON object only, without any other text, like this:
+{"steps": [{"description": "Eggs in 3 boxes of 12", "op": "multiply", "a": 3, "b": 12}, {"description": "Eggs that are not broken", "op": "subtract", "a": "$0", "b": 5}]}
+
+Each step is one of:
+- {"op": ${calculateArgsSchema.shape.op.options.map((op) => `"${op}"`).join(' | ')}, "a": <operand>, "b": <operand>}
+- {"op": ${advancedCalculateArgsSchema.shape.operation.options.map((op) => `"${op}"`).join(' | ')}, "value": <operand>, "base": <operand>}
+  "base" is only used by power (base raised to value) and log (logarithm of value to base, natural logarithm without it). Angles are in radians.
+
+An operand is a number, or "$N" for the result of step N (counting from 0), which must come before the step that uses it.
+Give every step a short description. The result of the last step is the answer. Use at most ${MAX_WORD_PROBLEM_STEPS} steps.`;
+
+/**
+ * A step of a plan with its operands resolved and its result.
+ */
+export interface SolvedStep {
+  index: number;
+  step: WordProblemStep;
+  /** The operands as used, with references replaced by the results they refer to */
+  inputs: string[];
+  outcome: ArithmeticOutcome;
+}
+
+/**
+ * Builds the sampling request that asks the client's model for a plan.
+ */
+export function wordProblemRequest(problem: string): CreateMessageRequest['params'] {
+  return {
+    messages: [{ role: 'user', content: { type: 'text', text: problem } }],
+    systemPrompt: SYSTEM_PROMPT,
+    // The plan must come from the problem alone, not from unrelated conversations
+    includeContext: 'none',
+    temperature: 0,
+    maxTokens: SAMPLING_MAX_TOKENS,
+  };
+}
+
+/**
+ * Reads the plan from the model's reply. Models like to wrap JSON in a Markdown code block or
+ * a sentence, so the outermost `{...}` of the reply is used.
+ * @throws {WordProblemError} If the reply contains no valid plan, or a step refers to a step
+ * that does not come before it.
+ */
+export function parsePlan(reply: string): WordProblemPlan {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  let json: unknown;
+  try {
+    json = JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    throw new WordProblemError('The model did not reply with a JSON plan');
+  }
+
+  const parsed = wordProblemPlanSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new WordProblemError(
+      `The model's plan is invalid: ${issue?.path.join('.') ?? ''}: ${issue?.message ?? 'unknown problem'}`,
+    );
+  }
+
+  parsed.data.steps.forEach((step, index) => {
+    const target = operandsOf(step)
+      .map(parseReference)
+      .find((reference) => reference !== undefined && reference >= index);
+    if (target !== undefined) {
+      throw new WordProblemError(
+        `Step $${index} of the model's plan refers to step $${target}, which does not come before it`,
+        { step: index },
+      );
+    }
+  });
+  return parsed.data;
+}
+
+/**
+ * Runs the steps of a plan in order.
+ * @throws {WordProblemError} If a step fails, e.g. because it divides by zero.
+ */
+export function solvePlan(plan: WordProblemPlan, precision: PrecisionSettings): SolvedStep[] {
+  const solved: SolvedStep[] = [];
+  plan.steps.forEach((step, index) => {
+    const inputs = operandsOf(step).map((operand) => {
+      const target = parseReference(operand);
+      if (target === undefined) {
+        return String(operand);
+      }
+      // References point backwards (see parsePlan), so the target has been solved already
+      const { outcome } = solved[target] as SolvedStep;
+      return outcome.exact ?? String(outcome.value);
+    });
+
+    try {
+      const outcome =
+        'a' in step
+          ? calculateBasic(step.op, inputs[0] ?? '', inputs[1] ?? '', precision)
+          : calculateAdvanced(step.op, inputs[0] ?? '', inputs[1], precision);
+      solved.push({ index, step, inputs, outcome });
+    } catch (error) {
+      if (error instanceof ArithmeticError) {
+        throw new WordProblemError(`Step $${index} (${step.op}) failed: ${error.reason}`, {
+          step: index,
+        });
+      }
+      throw error;
+    }
+  });
+  return solved;
+}
+
+/** The operands of a step, in the order its operation takes them. */
+function operandsOf(step: WordProblemStep): WordProblemOperand[] {
+  if ('a' in step) {
+    return [step.a, step.b];
+  }
+  return step.base === undefined ? [step.value] : [step.value, step.base];
+}